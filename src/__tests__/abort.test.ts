@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { doRequest } from '../lib/common.js';
+import { app } from '../lib/app.js';
+import { privacy } from '../lib/privacy.js';
+import { RateLimiter } from '../lib/rate-limit.js';
+import { sleep } from '../lib/retry.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+
+/** fetch mock that never settles on its own and rejects with the abort reason when its signal aborts. */
+function hangingFetch() {
+  return vi.fn().mockImplementation(
+    (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason as Error));
+      })
+  );
+}
+
+/** Lookup JSON for one app without screenshots (so app() also scrapes the app page). */
+function lookupJson(trackId: number): string {
+  return JSON.stringify({
+    resultCount: 1,
+    results: [{ kind: 'software', trackId, bundleId: 'com.test.app' }],
+  });
+}
+
+describe('AbortSignal cancellation', () => {
+  it('should not send a request when the signal is already aborted', async () => {
+    const fetch = vi.fn();
+    const controller = new AbortController();
+    controller.abort();
+    const err = await doRequest(LOOKUP_URL, { fetch, signal: controller.signal }).catch(
+      (e: unknown) => e
+    );
+    expect(err).toMatchObject({ name: 'AbortError' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should abort an in-flight request without retrying', async () => {
+    const fetch = hangingFetch();
+    const controller = new AbortController();
+    const pending = doRequest(LOOKUP_URL, { fetch, retries: 3, signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort(new Error('stale query'));
+    await expect(pending).rejects.toThrow('stale query');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still apply the timeout when a signal is passed', async () => {
+    const fetch = hangingFetch();
+    const err = await doRequest(LOOKUP_URL, {
+      fetch,
+      timeoutMs: 10,
+      signal: new AbortController().signal,
+    }).catch((e: unknown) => e);
+    expect(err).toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('should cancel a pending backoff sleep', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('') });
+    const controller = new AbortController();
+    const started = Date.now();
+    const pending = doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 1,
+      retryPolicy: { baseDelayMs: 60_000, jitter: 'none' },
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove an aborted request from the rate limiter queue', async () => {
+    const limiter = new RateLimiter({ default: { maxConcurrent: 1 } });
+    const release = await limiter.acquire(LOOKUP_URL);
+    const controller = new AbortController();
+    const waiting = limiter.acquire(LOOKUP_URL, controller.signal);
+    expect(limiter.pending('itunes.apple.com')).toBe(1);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(limiter.pending('itunes.apple.com')).toBe(0);
+    release();
+  });
+
+  it('should stop app() before the screenshot request once aborted', async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn().mockImplementation(() => {
+      controller.abort(); // cancelled while the lookup response is being read
+      return Promise.resolve({ ok: true, text: () => Promise.resolve(lookupJson(1)) });
+    });
+    await expect(
+      app({ id: 1, ratings: true, requestOptions: { fetch, signal: controller.signal } })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the AbortError when bundle ID resolution is cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      privacy({ appId: 'com.test.app', requestOptions: { signal: controller.signal } })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('sleep should resolve after the delay or reject on abort', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+    const controller = new AbortController();
+    const pending = sleep(60_000, controller.signal);
+    controller.abort(new Error('cancelled'));
+    await expect(pending).rejects.toThrow('cancelled');
+  });
+});
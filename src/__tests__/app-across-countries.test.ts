@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { appAcrossCountries } from '../lib/app-across-countries.js';
+import { ValidationError } from '../lib/errors.js';
+import { markets } from '../types/constants.js';
+import { createMockAppStore } from '../testing/index.js';
+import type { MockAppStore } from '../types/testing.js';
+
+describe('appAcrossCountries', () => {
+  let server: MockAppStore;
+
+  beforeAll(async () => {
+    server = await createMockAppStore({
+      apps: [
+        {
+          id: 1,
+          appId: 'com.example.puzzle',
+          title: 'Puzzle',
+          price: 4.99,
+          currency: 'GBP',
+          version: '2.1',
+          score: 4.5,
+          reviews: 120,
+          released: '2020-01-01T00:00:00Z',
+          countries: ['us', 'gb'],
+        },
+      ],
+    });
+  });
+  afterAll(() => server.close());
+
+  it('should return one row per storefront in the given order, marking unavailable ones', async () => {
+    const rows = await appAcrossCountries({
+      appId: 'com.example.puzzle',
+      countries: ['gb', 'de', 'US', 'gb'],
+      requestOptions: server.requestOptions,
+    });
+
+    expect(rows.map((r) => [r.country, r.available])).toEqual([
+      ['gb', true],
+      ['de', false],
+      ['us', true],
+    ]);
+    expect(rows[0]).toMatchObject({
+      price: 4.99,
+      currency: 'GBP',
+      score: 4.5,
+      reviews: 120,
+      version: '2.1',
+      released: '2020-01-01T00:00:00Z',
+    });
+    expect(rows[1]).toEqual({ country: 'de', available: false });
+  });
+
+  it('should look up every market by default, with at most concurrency requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetch = vi.fn().mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return { ok: true, status: 200, text: () => '{"resultCount":0,"results":[]}' };
+    });
+
+    const rows = await appAcrossCountries({ id: 1, concurrency: 3, requestOptions: { fetch } });
+
+    expect(rows.map((r) => r.country)).toEqual(Object.keys(markets));
+    expect(rows.every((r) => !r.available)).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(Object.keys(markets).length);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should report a 404 as unavailable instead of throwing', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: false, status: 404, text: () => '' });
+    expect(
+      await appAcrossCountries({ id: 1, countries: ['fr'], requestOptions: { fetch } })
+    ).toEqual([{ country: 'fr', available: false }]);
+  });
+
+  it('throws ValidationError for missing ids, invalid countries, or invalid concurrency', async () => {
+    const fetch = vi.fn();
+    await expect(appAcrossCountries({ requestOptions: { fetch } })).rejects.toMatchObject({
+      field: 'id/appId',
+    });
+    await expect(
+      appAcrossCountries({ id: 1, countries: ['us', 'xx'], requestOptions: { fetch } })
+    ).rejects.toMatchObject({ field: 'country' });
+    await expect(
+      appAcrossCountries({ id: 1, concurrency: 0, requestOptions: { fetch } })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
 import * as common from '../lib/common.js';
 import { app } from '../lib/app.js';
-import { HttpError, RatingsEmptyError } from '../lib/errors.js';
+import { CircuitOpenError, HttpError, RatingsEmptyError } from '../lib/errors.js';
 import { DEFAULT_COUNTRY } from '../types/constants.js';
 import { runIntegrationTests } from './integration.js';
 
@@ -103,7 +103,8 @@ describe('app', () => {
         'bundleId',
         DEFAULT_COUNTRY,
         undefined,
-        undefined
+        undefined,
+        false
       );
     });
 
@@ -117,7 +118,8 @@ describe('app', () => {
         'id',
         DEFAULT_COUNTRY,
         undefined,
-        undefined
+        undefined,
+        false
       );
     });
 
@@ -151,6 +153,22 @@ describe('app', () => {
       expect(result.appletvScreenshots).toEqual([]);
     });
 
+    it('returns empty screenshots when the app page circuit is open', async () => {
+      vi.mocked(common.lookup).mockResolvedValueOnce([baseAppWithoutScreenshots]);
+      vi.mocked(common.doRequest).mockRejectedValueOnce(
+        new CircuitOpenError(
+          'Circuit appPage is open',
+          'https://apps.apple.com/us/app/id12345',
+          'appPage'
+        )
+      );
+
+      const result = await app({ id: 12345, country: DEFAULT_COUNTRY });
+
+      expect(result.id).toBe(12345);
+      expect(result.screenshots).toEqual([]);
+    });
+
     it('throws when scrape gets non-404 error', async () => {
       vi.mocked(common.lookup).mockResolvedValueOnce([baseAppWithoutScreenshots]);
       vi.mocked(common.doRequest).mockRejectedValueOnce(new HttpError('Server Error', 500));
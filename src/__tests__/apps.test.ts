@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { apps } from '../lib/apps.js';
+import { mapWithConcurrency } from '../lib/common.js';
+import { ValidationError } from '../lib/errors.js';
+import { runIntegrationTests } from './integration.js';
+
+/**
+ * fetch mock that answers lookups from the requested `id` / `bundleId` parameter,
+ * returning only the IDs in `known` (reversed, to prove results are re-ordered).
+ */
+function lookupFetch(known: (number | string)[]) {
+  return vi.fn().mockImplementation((url: string) => {
+    const params = new URL(url).searchParams;
+    const requested = (params.get('id') ?? params.get('bundleId') ?? '').split(',');
+    const results = requested
+      .filter((id) => known.map((k) => String(k).toLowerCase()).includes(id.toLowerCase()))
+      .reverse()
+      .map((id) =>
+        /^\d+$/.test(id)
+          ? { kind: 'software', trackId: Number(id), bundleId: `com.app${id}` }
+          : { kind: 'software', trackId: id.length, bundleId: id.toLowerCase() }
+      );
+    return Promise.resolve({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify({ resultCount: results.length, results })),
+    });
+  });
+}
+
+describe('apps', () => {
+  it('should return apps in input order and report IDs that were not found', async () => {
+    const fetch = lookupFetch([1, 2, 3]);
+    const result = await apps({ ids: [3, 99, 1, 2], requestOptions: { fetch } });
+    expect(result.apps.map((a) => a.id)).toEqual([3, 1, 2]);
+    expect(result.notFound).toEqual([99]);
+  });
+
+  it('should split IDs into chunks of chunkSize', async () => {
+    const fetch = lookupFetch([1, 2, 3, 4, 5]);
+    const result = await apps({ ids: [1, 2, 3, 4, 5], chunkSize: 2, requestOptions: { fetch } });
+    expect(fetch).toHaveBeenCalledTimes(3);
+    const idParams = fetch.mock.calls.map(([url]) => new URL(url as string).searchParams.get('id'));
+    expect(idParams).toEqual(['1,2', '3,4', '5']);
+    expect(result.apps.map((a) => a.id)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should look up duplicate IDs once', async () => {
+    const fetch = lookupFetch([1]);
+    const result = await apps({ ids: [1, 1], requestOptions: { fetch } });
+    expect(new URL(fetch.mock.calls[0]![0] as string).searchParams.get('id')).toBe('1');
+    expect(result.apps).toHaveLength(1);
+  });
+
+  it('should match bundle IDs case-insensitively and report them as given', async () => {
+    const fetch = lookupFetch(['com.a.app']);
+    const result = await apps({ appIds: ['COM.A.APP', 'com.missing'], requestOptions: { fetch } });
+    expect(result.apps.map((a) => a.appId)).toEqual(['com.a.app']);
+    expect(result.notFound).toEqual(['com.missing']);
+  });
+
+  it('should make no request for an empty list', async () => {
+    const fetch = lookupFetch([]);
+    expect(await apps({ ids: [], requestOptions: { fetch } })).toEqual({ apps: [], notFound: [] });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('throws ValidationError for missing or conflicting ids/appIds', async () => {
+    await expect(apps({})).rejects.toBeInstanceOf(ValidationError);
+    const err = await apps({ ids: [1], appIds: ['a'] }).catch((e: unknown) => e);
+    expect(err).toMatchObject({ field: 'ids/appIds' });
+  });
+
+  it('throws ValidationError for invalid chunkSize or concurrency', async () => {
+    await expect(apps({ ids: [1], chunkSize: 201 })).rejects.toMatchObject({
+      field: 'chunkSize',
+    });
+    await expect(apps({ ids: [1], concurrency: 0 })).rejects.toMatchObject({
+      field: 'concurrency',
+    });
+  });
+
+  describe.skipIf(!runIntegrationTests)('live API', () => {
+    it('should fetch several apps and report unknown IDs', { timeout: 10000 }, async () => {
+      const result = await apps({ ids: [553834731, 479516143, 1] });
+      expect(result.apps.map((a) => a.id)).toEqual([553834731, 479516143]);
+      expect(result.notFound).toEqual([1]);
+    });
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep at most `limit` calls in flight and preserve order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const result = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, i) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, ms));
+      inFlight--;
+      return i;
+    });
+    expect(result).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should stop starting new calls after a failure', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue('ok');
+    await expect(mapWithConcurrency([1, 2, 3], 1, fn)).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { availability, diffAvailability } from '../lib/availability.js';
+import { ValidationError } from '../lib/errors.js';
+import { RateLimiter } from '../lib/rate-limit.js';
+import { markets } from '../types/constants.js';
+import { createMockAppStore } from '../testing/index.js';
+import type { MockAppStore } from '../types/testing.js';
+
+describe('availability', () => {
+  let server: MockAppStore;
+
+  beforeAll(async () => {
+    server = await createMockAppStore({
+      apps: [
+        { id: 1, appId: 'com.example.puzzle', title: 'Puzzle', countries: ['us', 'gb'] },
+        { id: 2, appId: 'com.example.words', title: 'Words', countries: ['de'] },
+      ],
+    });
+  });
+  afterAll(() => server.close());
+
+  it('should report available and unavailable storefronts per app with one lookup per storefront', async () => {
+    const result = await availability({
+      id: [1, 2, 1],
+      countries: ['us', 'de', 'GB'],
+      requestOptions: server.requestOptions,
+    });
+
+    expect(result).toEqual([
+      { id: 1, available: ['us', 'gb'], unavailable: ['de'] },
+      { id: 2, available: ['de'], unavailable: ['us', 'gb'] },
+    ]);
+    expect(server.requests.filter((r) => r.endpoint === 'lookup')).toHaveLength(3);
+  });
+
+  it('should match bundle IDs case-insensitively and report them as given', async () => {
+    const [result] = await availability({
+      appId: 'COM.example.Puzzle',
+      countries: ['gb', 'fr'],
+      requestOptions: server.requestOptions,
+    });
+    expect(result).toEqual({ id: 'COM.example.Puzzle', available: ['gb'], unavailable: ['fr'] });
+  });
+
+  it('should check every market by default and treat a 404 as unavailable', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: false, status: 404, text: () => '' });
+    const [result] = await availability({
+      id: 1,
+      requestOptions: { fetch, rateLimiter: new RateLimiter() },
+    });
+    expect(result!.available).toEqual([]);
+    expect(result!.unavailable).toEqual(Object.keys(markets));
+    expect(fetch).toHaveBeenCalledTimes(Object.keys(markets).length);
+  });
+
+  it('should share one default limiter between concurrent calls', async () => {
+    const acquire = vi.spyOn(RateLimiter.prototype, 'acquire');
+    await Promise.all([
+      availability({ id: 1, countries: ['us'], requestOptions: server.requestOptions }),
+      availability({ id: 2, countries: ['de'], requestOptions: server.requestOptions }),
+    ]);
+    expect(acquire).toHaveBeenCalledTimes(2);
+    expect(acquire.mock.contexts[0]).toBe(acquire.mock.contexts[1]);
+    acquire.mockRestore();
+  });
+
+  it('should pace requests with requestOptions.rateLimiter', async () => {
+    const acquire = vi.fn().mockResolvedValue(() => {});
+    await availability({
+      id: 1,
+      countries: ['us', 'gb'],
+      requestOptions: { ...server.requestOptions, rateLimiter: { acquire } },
+    });
+    expect(acquire).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws ValidationError for missing or conflicting ids, invalid countries, or concurrency', async () => {
+    const fetch = vi.fn();
+    await expect(availability({ requestOptions: { fetch } })).rejects.toMatchObject({
+      field: 'id/appId',
+    });
+    await expect(
+      availability({ id: 1, appId: 'com.a', requestOptions: { fetch } })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      availability({ id: 1, countries: ['xx'], requestOptions: { fetch } })
+    ).rejects.toMatchObject({ field: 'country' });
+    await expect(
+      availability({ id: 1, concurrency: 0, requestOptions: { fetch } })
+    ).rejects.toMatchObject({ field: 'concurrency' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('diffAvailability', () => {
+  it('should report storefronts gained and lost, comparing only storefronts checked in both runs', () => {
+    const previous = [
+      { id: 1, available: ['us', 'gb'], unavailable: ['de', 'fr'] },
+      { id: 'com.Words', available: ['de'], unavailable: [] },
+      { id: 3, available: ['us'], unavailable: [] },
+    ];
+    const current = [
+      { id: 1, available: ['us', 'de', 'jp'], unavailable: ['gb', 'fr'] },
+      { id: 'com.words', available: ['de'], unavailable: ['us'] },
+      { id: 4, available: [], unavailable: ['us'] },
+    ];
+
+    expect(diffAvailability(previous, current)).toEqual([{ id: 1, gained: ['de'], lost: ['gb'] }]);
+  });
+});
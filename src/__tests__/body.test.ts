@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_MAX_BODY_BYTES, maxBodyBytesFor } from '../lib/body.js';
+import { doRequest } from '../lib/common.js';
+import { ResponseTooLargeError, ValidationError } from '../lib/errors.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1&country=us&entity=software';
+
+/** Response streaming `chunks`; `pulled` counts the chunks the reader asked for. */
+function streamedResponse(chunks: Uint8Array[], headers?: Record<string, string>) {
+  const state = { pulled: 0, cancelled: false };
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[state.pulled++];
+      if (chunk === undefined) controller.close();
+      else controller.enqueue(chunk);
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return { response: new Response(stream, { status: 200, headers }), state };
+}
+
+describe('maxBodyBytes', () => {
+  it('should stop reading and cancel the body once the limit is passed', async () => {
+    const { response, state } = streamedResponse(
+      Array.from({ length: 10 }, () => new Uint8Array(100))
+    );
+    const fetch = vi.fn().mockResolvedValue(response);
+    const error = await doRequest(LOOKUP_URL, { fetch, maxBodyBytes: 250, retries: 2 }).catch(
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(ResponseTooLargeError);
+    expect(error).toMatchObject({ url: LOOKUP_URL, maxBytes: 250 });
+    expect(state.cancelled).toBe(true);
+    expect(state.pulled).toBeLessThan(10);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject up front when Content-Length exceeds the limit', async () => {
+    const { response, state } = streamedResponse([new Uint8Array(10)], { 'Content-Length': '500' });
+    const fetch = vi.fn().mockResolvedValue(response);
+    await expect(
+      doRequest(LOOKUP_URL, { fetch, maxBodyBytes: { lookup: 100 } })
+    ).rejects.toBeInstanceOf(ResponseTooLargeError);
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('héllo wörld');
+    const { response } = streamedResponse([bytes.slice(0, 2), bytes.slice(2, 9), bytes.slice(9)]);
+    const fetch = vi.fn().mockResolvedValue(response);
+    expect(await doRequest(LOOKUP_URL, { fetch, maxBodyBytes: bytes.length })).toBe('héllo wörld');
+  });
+
+  it('should check bodies of responses without a stream after reading them', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => 'x'.repeat(11) });
+    await expect(doRequest(LOOKUP_URL, { fetch, maxBodyBytes: 10 })).rejects.toBeInstanceOf(
+      ResponseTooLargeError
+    );
+  });
+
+  it('should use per-endpoint defaults and overrides', () => {
+    expect(maxBodyBytesFor(undefined, 'appPage')).toBe(DEFAULT_MAX_BODY_BYTES.appPage);
+    expect(maxBodyBytesFor({ appPage: 5 }, 'appPage')).toBe(5);
+    expect(maxBodyBytesFor({ appPage: 5 }, 'hints')).toBe(DEFAULT_MAX_BODY_BYTES.hints);
+    expect(maxBodyBytesFor(7, undefined)).toBe(7);
+    expect(maxBodyBytesFor(Infinity, 'lookup')).toBe(Infinity);
+    expect(DEFAULT_MAX_BODY_BYTES.lookup).toBeLessThan(DEFAULT_MAX_BODY_BYTES.appPage);
+  });
+
+  it('should throw ValidationError for invalid limits before any request', async () => {
+    const fetch = vi.fn();
+    await expect(doRequest(LOOKUP_URL, { fetch, maxBodyBytes: 0 })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(
+      doRequest(LOOKUP_URL, { fetch, maxBodyBytes: { lookup: NaN } })
+    ).rejects.toMatchObject({ field: 'maxBodyBytes.lookup' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MemoryCacheStore, cacheKey, cacheTtlMs } from '../lib/cache.js';
+import { doRequest } from '../lib/common.js';
+import { endpointForUrl } from '../lib/endpoints.js';
+import { ratings } from '../lib/ratings.js';
+import { CacheMissError, HttpError, ValidationError } from '../lib/errors.js';
+import type { CacheEvent, CacheOptions } from '../types/cache.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1&country=us&entity=software';
+
+/** fetch mock that returns a new body on every call so cache hits are observable. */
+function countingFetch() {
+  let n = 0;
+  return vi.fn().mockImplementation(() => {
+    n++;
+    return Promise.resolve({ ok: true, text: () => Promise.resolve(`body ${n}`) });
+  });
+}
+
+describe('MemoryCacheStore', () => {
+  const entry = (body: string) => ({ body, storedAt: 0, expiresAt: 1 });
+
+  it('should return stored entries and undefined for missing keys', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', entry('A'));
+    expect(store.get('a')?.body).toBe('A');
+    expect(store.get('b')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry beyond maxEntries', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', entry('A'));
+    store.set('b', entry('B'));
+    store.get('a'); // a is now most recent
+    store.set('c', entry('C'));
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')?.body).toBe('A');
+    expect(store.size).toBe(2);
+  });
+
+  it('should delete and clear entries', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', entry('A'));
+    store.set('b', entry('B'));
+    store.delete('a');
+    expect(store.get('a')).toBeUndefined();
+    store.clear();
+    expect(store.size).toBe(0);
+  });
+
+  it('should throw ValidationError for invalid maxEntries', () => {
+    expect(() => new MemoryCacheStore({ maxEntries: 0 })).toThrow(ValidationError);
+    expect(() => new MemoryCacheStore({ maxEntries: 1.5 })).toThrow(
+      'maxEntries must be a positive integer'
+    );
+  });
+});
+
+describe('cacheKey', () => {
+  it('should include store-front and language headers case-insensitively', () => {
+    const a = cacheKey('https://x', { 'X-Apple-Store-Front': '143441,12' });
+    const b = cacheKey('https://x', { 'x-apple-store-front': '143444,12' });
+    expect(a).not.toBe(b);
+    expect(a).toBe(cacheKey('https://x', { 'x-apple-store-front': '143441,12' }));
+  });
+
+  it('should ignore headers that do not change the response', () => {
+    expect(cacheKey('https://x', { 'User-Agent': 'a' })).toBe(
+      cacheKey('https://x', { 'User-Agent': 'b' })
+    );
+  });
+});
+
+describe('cacheTtlMs', () => {
+  const store = new MemoryCacheStore();
+
+  it('should default to 5 minutes', () => {
+    expect(cacheTtlMs({ store }, 'lookup')).toBe(300_000);
+  });
+
+  it('should prefer the per-endpoint override', () => {
+    const cache: CacheOptions = { store, ttlMs: 1000, endpointTtlMs: { appPage: 5000 } };
+    expect(cacheTtlMs(cache, 'appPage')).toBe(5000);
+    expect(cacheTtlMs(cache, 'lookup')).toBe(1000);
+    expect(cacheTtlMs(cache, undefined)).toBe(1000);
+  });
+});
+
+describe('endpointForUrl', () => {
+  it('should classify Apple endpoint URLs', () => {
+    expect(endpointForUrl(LOOKUP_URL)).toBe('lookup');
+    expect(endpointForUrl('https://itunes.apple.com/search?term=x')).toBe('search');
+    expect(endpointForUrl('https://itunes.apple.com/us/rss/topfreeapplications/limit=5/json')).toBe(
+      'rss'
+    );
+    expect(
+      endpointForUrl('https://itunes.apple.com/us/customer-reviews/id1?displayable-kind=11')
+    ).toBe('customerReviews');
+    expect(
+      endpointForUrl('https://search.itunes.apple.com/WebObjects/MZSearchHints.woa/wa/hints?term=x')
+    ).toBe('hints');
+    expect(endpointForUrl('https://apps.apple.com/us/app/id1')).toBe('appPage');
+  });
+
+  it('should return undefined for unknown or invalid URLs', () => {
+    expect(endpointForUrl('https://example.com/')).toBeUndefined();
+    expect(endpointForUrl('not a url')).toBeUndefined();
+  });
+});
+
+describe('doRequest with cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should serve a fresh entry without a second request', async () => {
+    const fetch = countingFetch();
+    const cache: CacheOptions = { store: new MemoryCacheStore() };
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('body 1');
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('body 1');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch once the TTL has elapsed', async () => {
+    const fetch = countingFetch();
+    const cache: CacheOptions = { store: new MemoryCacheStore(), ttlMs: 1000 };
+    const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    now.mockReturnValue(11_001);
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('body 2');
+  });
+
+  it('should not cache an endpoint whose TTL override is 0', async () => {
+    const fetch = countingFetch();
+    const cache: CacheOptions = { store: new MemoryCacheStore(), endpointTtlMs: { lookup: 0 } };
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the cache when cache is false', async () => {
+    const fetch = countingFetch();
+    await doRequest(LOOKUP_URL, { fetch, cache: false });
+    expect(await doRequest(LOOKUP_URL, { fetch, cache: false })).toBe('body 2');
+  });
+
+  it('should not cache failed requests', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 500, text: () => Promise.resolve('') })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('ok') });
+    const cache: CacheOptions = { store: new MemoryCacheStore() };
+    await expect(doRequest(LOOKUP_URL, { fetch, cache })).rejects.toBeInstanceOf(HttpError);
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('ok');
+  });
+
+  it('should report miss, set, and hit events', async () => {
+    const events: CacheEvent[] = [];
+    const cache: CacheOptions = {
+      store: new MemoryCacheStore(),
+      onEvent: (e) => events.push(e),
+    };
+    const fetch = countingFetch();
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    expect(events.map((e) => e.type)).toEqual(['miss', 'set', 'hit']);
+    expect(events[0]).toMatchObject({ url: LOOKUP_URL, endpoint: 'lookup' });
+  });
+
+  it('should keep ratings for different storefronts in separate entries', async () => {
+    const html = (n: number) =>
+      `<div class="rating-count">${n} Ratings</div>` +
+      [5, 4, 3, 2, 1].map(() => '<div class="vote"><span class="total">0</span></div>').join('');
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(html(10)) })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(html(20)) });
+    const cache: CacheOptions = { store: new MemoryCacheStore() };
+    const us = await ratings({ id: 1, country: 'us', requestOptions: { fetch, cache } });
+    const usAgain = await ratings({ id: 1, country: 'us', requestOptions: { fetch, cache } });
+    const gb = await ratings({ id: 1, country: 'gb', requestOptions: { fetch, cache } });
+    expect(us.ratings).toBe(10);
+    expect(usAgain.ratings).toBe(10);
+    expect(gb.ratings).toBe(20);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should revalidate a stale entry with its validators and renew it on 304', async () => {
+    const events: CacheEvent[] = [];
+    const store = new MemoryCacheStore();
+    const cache: CacheOptions = { store, ttlMs: 1000, onEvent: (e) => events.push(e) };
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v1"', 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' }),
+        text: () => Promise.resolve('body 1'),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 304,
+        headers: new Headers({ ETag: '"v2"' }),
+        text: () => Promise.resolve(''),
+      });
+    const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    now.mockReturnValue(20_000);
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('body 1');
+
+    const [, init] = fetch.mock.calls[1] as [string, RequestInit];
+    expect(init.headers).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    expect(store.get(cacheKey(LOOKUP_URL, init.headers as Record<string, string>))).toMatchObject({
+      body: 'body 1',
+      expiresAt: 21_000,
+      etag: '"v2"',
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    expect(events.map((e) => e.type)).toEqual(['miss', 'set', 'miss', 'revalidated']);
+    // Renewed: served from the cache without a request
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('body 1');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send no conditional headers for entries without validators and store a changed body', async () => {
+    const fetch = countingFetch();
+    const cache: CacheOptions = { store: new MemoryCacheStore(), ttlMs: 1000 };
+    const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+    await doRequest(LOOKUP_URL, { fetch, cache });
+    now.mockReturnValue(20_000);
+    expect(await doRequest(LOOKUP_URL, { fetch, cache })).toBe('body 2');
+    const [, init] = fetch.mock.calls[1] as [string, RequestInit];
+    expect(init.headers).not.toHaveProperty('If-None-Match');
+    expect(init.headers).not.toHaveProperty('If-Modified-Since');
+  });
+
+  it('should treat 304 as an error for requests that were not conditional', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: false, status: 304, text: () => '' });
+    await expect(doRequest(LOOKUP_URL, { fetch })).rejects.toMatchObject({ status: 304 });
+  });
+
+  it('should serve stale entries in offline mode without a request', async () => {
+    const store = new MemoryCacheStore();
+    const fetch = countingFetch();
+    const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+    await doRequest(LOOKUP_URL, { fetch, cache: { store, ttlMs: 1000 } });
+    now.mockReturnValue(1_000_000);
+    const offline: CacheOptions = { store, offline: true, endpointTtlMs: { lookup: 0 } };
+    expect(await doRequest(LOOKUP_URL, { fetch, cache: offline })).toBe('body 1');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw CacheMissError in offline mode when nothing is cached', async () => {
+    const fetch = countingFetch();
+    const events: CacheEvent[] = [];
+    const cache: CacheOptions = {
+      store: new MemoryCacheStore(),
+      offline: true,
+      onEvent: (e) => events.push(e),
+    };
+    const error = await doRequest(LOOKUP_URL, { fetch, cache, retries: 2 }).catch(
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(CacheMissError);
+    expect(error).toMatchObject({ name: 'CacheMissError', url: LOOKUP_URL });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(events.map((e) => e.type)).toEqual(['miss']);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette } from '../lib/cassette.js';
+import { app } from '../lib/app.js';
+import { doRequest } from '../lib/common.js';
+import { endpointForUrl } from '../lib/endpoints.js';
+import { list } from '../lib/list.js';
+import { suggest } from '../lib/suggest.js';
+import { CassetteMismatchError, ValidationError } from '../lib/errors.js';
+import type { RequestOptions } from '../types/options.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+
+/** Bodies per endpoint: lookup JSON, RSS JSON, hints XML, and app-page HTML. */
+const BODIES: Record<string, string> = {
+  lookup: JSON.stringify({
+    resultCount: 1,
+    results: [{ kind: 'software', trackId: 1, bundleId: 'com.test.app', trackName: 'Test' }],
+  }),
+  rss: JSON.stringify({
+    feed: { entry: [{ id: { attributes: { 'im:id': '1' } }, 'im:name': { label: 'Test' } }] },
+  }),
+  hints: `<?xml version="1.0"?>
+<plist version="1.0"><dict><key>hints</key><array><string>test</string></array></dict></plist>`,
+  appPage: `<ul class="shelf-grid__list shelf-grid__list--grid-type-ScreenshotPhone">
+<li><picture><source type="image/webp" srcset="https://is1-ssl.mzstatic.com/image/thumb/a/100x100bb.webp 100w"></source></picture></li>
+</ul>`,
+};
+
+/** Live-like transport answering each endpoint with its fixture body. */
+function liveFetch() {
+  return vi.fn().mockImplementation((url: string) =>
+    Promise.resolve(
+      new Response(BODIES[endpointForUrl(url) ?? ''] ?? '', {
+        status: 200,
+        headers: { 'content-type': 'text/plain' },
+      })
+    )
+  );
+}
+
+/** Calls one method per endpoint kind. */
+async function exercise(requestOptions: RequestOptions) {
+  return [
+    await app({ id: 1, requestOptions }),
+    await list({ num: 1, requestOptions }),
+    await suggest({ term: 'test', requestOptions }),
+  ];
+}
+
+describe('Cassette', () => {
+  it('should record every endpoint to a file and replay it without network access', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+    try {
+      const path = join(dir, 'cassette.json');
+      const transport = liveFetch();
+      const recorder = new Cassette({ mode: 'record', fetch: transport });
+      const recorded = await exercise({ fetch: recorder.fetch });
+      await recorder.save(path);
+      expect(recorder.interactions.map((i) => endpointForUrl(i.request.url))).toEqual([
+        'lookup',
+        'appPage',
+        'rss',
+        'hints',
+      ]);
+      expect(recorder.interactions[0]?.response).toMatchObject({
+        status: 200,
+        headers: { 'content-type': 'text/plain' },
+        body: BODIES.lookup,
+      });
+
+      const cassette = await Cassette.load(path);
+      const replayed = await exercise({ fetch: cassette.fetch });
+      expect(replayed).toEqual(recorded);
+      expect(transport).toHaveBeenCalledTimes(4);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write to `path` after each recorded interaction and replay from it', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+    try {
+      const path = join(dir, 'cassette.json');
+      const recorder = new Cassette({ mode: 'record', fetch: liveFetch(), path });
+      await doRequest(LOOKUP_URL, { fetch: recorder.fetch });
+      const written = JSON.parse(await readFile(path, 'utf8')) as unknown;
+      expect(written).toEqual(recorder.toJSON());
+
+      const cassette = new Cassette({ path });
+      expect(await doRequest(LOOKUP_URL, { fetch: cassette.fetch })).toBe(BODIES.lookup);
+      expect(cassette.interactions).toHaveLength(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not record or replay transfer headers that describe the encoded body', async () => {
+    const transport = vi.fn().mockResolvedValue(
+      new Response('ok', {
+        headers: {
+          'content-type': 'text/plain',
+          'content-encoding': 'gzip',
+          'content-length': '22',
+        },
+      })
+    );
+    const recorder = new Cassette({ mode: 'record', fetch: transport });
+    await recorder.fetch(LOOKUP_URL, {});
+    expect(recorder.interactions[0]?.response.headers).toEqual({ 'content-type': 'text/plain' });
+
+    const [interaction] = recorder.interactions;
+    const older = { ...interaction!, response: { ...interaction!.response } };
+    older.response.headers = { ...older.response.headers, 'content-length': '22' };
+    const response = await new Cassette({ interactions: [older] }).fetch(LOOKUP_URL, {});
+    expect(response.headers.has('content-length')).toBe(false);
+    expect(await response.text()).toBe('ok');
+  });
+
+  it('should fail loudly, without retrying, on an unmatched request', async () => {
+    const cassette = new Cassette();
+    const err = await doRequest(LOOKUP_URL, {
+      fetch: cassette.fetch,
+      retries: 2,
+      retryPolicy: { baseDelayMs: 0 },
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(CassetteMismatchError);
+    expect(err).toMatchObject({ url: LOOKUP_URL, attempts: 1 });
+  });
+
+  it('should match store-front headers and replay repeated requests in recorded order', async () => {
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok'));
+    const recorder = new Cassette({ mode: 'record', fetch: transport });
+    const options = { retries: 1, retryPolicy: { baseDelayMs: 0 } };
+    const headers = { 'X-Apple-Store-Front': '143441,12' };
+    await doRequest(LOOKUP_URL, { ...options, headers, fetch: recorder.fetch });
+
+    const cassette = new Cassette({ interactions: [...recorder.interactions] });
+    expect(await doRequest(LOOKUP_URL, { ...options, headers, fetch: cassette.fetch })).toBe('ok');
+    await expect(
+      doRequest(LOOKUP_URL, {
+        headers: { 'X-Apple-Store-Front': '143443,12' },
+        fetch: cassette.fetch,
+      })
+    ).rejects.toBeInstanceOf(CassetteMismatchError);
+  });
+
+  it('should redact credentials in recorded request headers', async () => {
+    const recorder = new Cassette({ mode: 'record', fetch: liveFetch() });
+    await doRequest(LOOKUP_URL, {
+      fetch: recorder.fetch,
+      headers: { Authorization: 'Bearer secret' },
+    });
+    expect(JSON.stringify(recorder)).not.toContain('secret');
+    expect(recorder.interactions[0]?.request.headers.authorization).toBe('[REDACTED]');
+  });
+
+  it('throws ValidationError for an invalid mode or a file that is not a cassette', async () => {
+    expect(() => new Cassette({ mode: 'live' as 'record' })).toThrow(ValidationError);
+    const dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+    try {
+      const path = join(dir, 'other.json');
+      await writeFile(path, '{"entries":[]}');
+      await expect(Cassette.load(path)).rejects.toMatchObject({ field: 'path' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
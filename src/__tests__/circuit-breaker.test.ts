@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../lib/circuit-breaker.js';
+import { doRequest } from '../lib/common.js';
+import { privacy } from '../lib/privacy.js';
+import { CircuitOpenError, HttpError, NotFoundError, ValidationError } from '../lib/errors.js';
+import type { CircuitStateChange } from '../types/circuit-breaker.js';
+
+const PAGE_URL = 'https://apps.apple.com/us/app/id1';
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1&country=us&entity=software';
+
+/** fetch mock answering app pages with `pageStatus` and everything else with 200. */
+function fetchWithPageStatus(pageStatus: () => number) {
+  return vi.fn().mockImplementation((url: string) => {
+    const status = url.startsWith('https://apps.apple.com/') ? pageStatus() : 200;
+    return Promise.resolve({
+      ok: status < 400,
+      status,
+      text: () => Promise.resolve('body'),
+      headers: new Headers(),
+    });
+  });
+}
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should open after consecutive failures and fail fast while open', async () => {
+    const events: CircuitStateChange[] = [];
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 2,
+      onStateChange: (e) => events.push(e),
+    });
+    const fetch = fetchWithPageStatus(() => 503);
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+
+    const error = await doRequest(PAGE_URL, { fetch, circuitBreaker }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ circuit: 'appPage', url: PAGE_URL });
+    expect((error as CircuitOpenError).retryAfterMs).toBeGreaterThan(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([{ circuit: 'appPage', from: 'closed', to: 'open', failures: 2 }]);
+    expect(circuitBreaker.state('appPage')).toBe('open');
+  });
+
+  it('should keep other endpoints working while one circuit is open', async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+    const fetch = fetchWithPageStatus(() => 500);
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+    expect(await doRequest(LOOKUP_URL, { fetch, circuitBreaker })).toBe('body');
+    expect(circuitBreaker.state('lookup')).toBe('closed');
+  });
+
+  it('should surface CircuitOpenError unchanged when bundle ID resolution is refused', async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+    const fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      text: () => Promise.resolve(''),
+      headers: new Headers(),
+    });
+    await expect(doRequest(LOOKUP_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(
+      HttpError
+    );
+
+    const error = await privacy({
+      appId: 'com.example.app',
+      requestOptions: { fetch, circuitBreaker },
+    }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ circuit: 'lookup' });
+    expect((error as CircuitOpenError).retryAfterMs).toBeGreaterThan(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should enter the circuit only after a limiter slot is acquired, releasing it when refused', async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+    const fetch = fetchWithPageStatus(() => 503);
+    const order: string[] = [];
+    const enter = circuitBreaker.enter.bind(circuitBreaker);
+    vi.spyOn(circuitBreaker, 'enter').mockImplementation((url) => {
+      order.push('enter');
+      return enter(url);
+    });
+    const release = vi.fn();
+    const rateLimiter = {
+      acquire: vi.fn().mockImplementation(() => {
+        order.push('acquire');
+        return Promise.resolve(release);
+      }),
+    };
+    await expect(
+      doRequest(PAGE_URL, { fetch, circuitBreaker, rateLimiter })
+    ).rejects.toBeInstanceOf(HttpError);
+    await expect(
+      doRequest(PAGE_URL, { fetch, circuitBreaker, rateLimiter })
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(order).toEqual(['acquire', 'enter', 'acquire', 'enter']);
+    expect(release).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retries once the circuit opens', async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+    const fetch = fetchWithPageStatus(() => 503);
+    const error = await doRequest(PAGE_URL, {
+      fetch,
+      circuitBreaker,
+      retries: 5,
+      retryPolicy: { baseDelayMs: 1, jitter: 'none' },
+    }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let one trial through after the cooldown and close or reopen on its outcome', async () => {
+    const events: CircuitStateChange[] = [];
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      onStateChange: (e) => events.push(e),
+    });
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+    let status = 503;
+    const fetch = fetchWithPageStatus(() => status);
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+
+    now.mockReturnValue(1000);
+    expect(circuitBreaker.state('appPage')).toBe('half-open');
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+    expect(circuitBreaker.state('appPage')).toBe('open');
+
+    now.mockReturnValue(2000);
+    status = 200;
+    const permit = circuitBreaker.enter(PAGE_URL);
+    expect(() => circuitBreaker.enter(PAGE_URL)).toThrow(CircuitOpenError);
+    permit.done();
+    expect(circuitBreaker.state('appPage')).toBe('closed');
+    expect(events.map((e) => `${e.from}->${e.to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+  });
+
+  it('should not count 404s as failures and reset on success', async () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+    let status = 500;
+    const fetch = fetchWithPageStatus(() => status);
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+    status = 404;
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    status = 500;
+    await expect(doRequest(PAGE_URL, { fetch, circuitBreaker })).rejects.toBeInstanceOf(HttpError);
+    expect(circuitBreaker.state('appPage')).toBe('closed');
+  });
+
+  it('should group circuits by host with scope "host"', () => {
+    const circuitBreaker = new CircuitBreaker({ scope: 'host' });
+    expect(circuitBreaker.circuitFor(LOOKUP_URL)).toBe('itunes.apple.com');
+    expect(new CircuitBreaker().circuitFor('https://example.com/x')).toBe('example.com');
+  });
+
+  it('should throw ValidationError for invalid options', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow(ValidationError);
+    expect(() => new CircuitBreaker({ cooldownMs: -1 })).toThrow('cooldownMs');
+    expect(() => new CircuitBreaker({ scope: 'path' as 'host' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createClient } from '../lib/client.js';
+import { ValidationError } from '../lib/errors.js';
+
+/** Minimal iTunes lookup JSON so lookup() returns one app with the given trackId. */
+function lookupJson(trackId: number): string {
+  return JSON.stringify({
+    resultCount: 1,
+    results: [
+      {
+        kind: 'software',
+        trackId,
+        bundleId: 'com.test.app',
+        screenshotUrls: ['https://example.com/s.png'],
+      },
+    ],
+  });
+}
+
+function stubFetch(body: string): ReturnType<typeof vi.fn> {
+  const impl = vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve(body) });
+  vi.stubGlobal('fetch', impl);
+  return impl;
+}
+
+/** URL and headers of the nth fetch call. */
+function fetchCall(
+  mock: ReturnType<typeof vi.fn>,
+  n = 0
+): { url: URL; headers: Record<string, string> } {
+  const [url, init] = mock.mock.calls[n] as [string, { headers: Record<string, string> }];
+  return { url: new URL(url), headers: init.headers };
+}
+
+describe('createClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should throw ValidationError for an unsupported default country', () => {
+    let err: unknown;
+    try {
+      createClient({ country: 'zz' });
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(ValidationError);
+    expect((err as ValidationError).field).toBe('country');
+  });
+
+  it('should apply default country and lang to lookup-based methods', async () => {
+    const fetchMock = stubFetch(lookupJson(1));
+    const client = createClient({ country: 'gb', lang: 'en-gb' });
+
+    await client.app({ id: 1 });
+
+    const { url } = fetchCall(fetchMock);
+    expect(url.searchParams.get('country')).toBe('gb');
+    expect(url.searchParams.get('lang')).toBe('en-gb');
+  });
+
+  it('should let per-call country and lang override the defaults', async () => {
+    const fetchMock = stubFetch(lookupJson(1));
+    const client = createClient({ country: 'gb', lang: 'en-gb' });
+
+    await client.developer({ devId: 1, country: 'de', lang: 'de-de' });
+
+    const { url } = fetchCall(fetchMock);
+    expect(url.searchParams.get('country')).toBe('de');
+    expect(url.searchParams.get('lang')).toBe('de-de');
+  });
+
+  it('should apply default country to URL-path methods', async () => {
+    const fetchMock = stubFetch(JSON.stringify({ feed: { entry: [] } }));
+    const client = createClient({ country: 'fr' });
+
+    await client.reviews({ id: 1 });
+
+    expect(fetchCall(fetchMock).url.pathname).toMatch(/^\/fr\/rss\/customerreviews\//);
+  });
+
+  it('should merge client and per-call headers, per-call winning', async () => {
+    const fetchMock = stubFetch(JSON.stringify({ resultCount: 0, results: [] }));
+    const client = createClient({
+      requestOptions: { headers: { 'X-Team': 'growth', 'User-Agent': 'client-ua' } },
+    });
+
+    await client.search({ term: 'x', requestOptions: { headers: { 'User-Agent': 'call-ua' } } });
+
+    const { headers } = fetchCall(fetchMock);
+    expect(headers['X-Team']).toBe('growth');
+    expect(headers['User-Agent']).toBe('call-ua');
+  });
+
+  it('should pass client requestOptions to methods without country (suggest)', async () => {
+    const fetchMock = stubFetch(
+      '<?xml version="1.0"?><plist version="1.0"><dict><key>hints</key><array></array></dict></plist>'
+    );
+    const client = createClient({ country: 'gb', requestOptions: { headers: { 'X-Team': 'a' } } });
+
+    await client.suggest({ term: 'min' });
+
+    const { url, headers } = fetchCall(fetchMock);
+    expect(url.searchParams.has('country')).toBe(false);
+    expect(headers['X-Team']).toBe('a');
+  });
+
+  it('should preserve overloads such as search idsOnly', async () => {
+    stubFetch(lookupJson(42));
+    const client = createClient();
+
+    const ids: number[] = await client.search({ term: 'x', idsOnly: true });
+
+    expect(ids).toEqual([42]);
+  });
+
+  it('should expose a frozen copy of the config', () => {
+    const config = { country: 'us' };
+    const client = createClient(config);
+    config.country = 'gb';
+    expect(client.config.country).toBe('us');
+    expect(Object.isFrozen(client.config)).toBe(true);
+  });
+});
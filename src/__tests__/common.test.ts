@@ -319,6 +319,15 @@ describe('common utilities', () => {
         ipadScreenshotUrls: ['https://example.com/ipad1.png'],
         appletvScreenshotUrls: [],
         supportedDevices: ['iPhone', 'iPad'],
+        formattedPrice: 'Free',
+        sellerName: 'King.com Limited',
+        trackContentRating: '4+',
+        advisories: ['Infrequent/Mild Cartoon or Fantasy Violence'],
+        features: ['iosUniversal', 'gameCenter'],
+        isGameCenterEnabled: true,
+        isVppDeviceBasedLicensingEnabled: true,
+        artworkUrl60: 'https://is1-ssl.mzstatic.com/60.png',
+        trackCensoredName: 'Candy Crush Saga',
       };
       const json = JSON.stringify({ resultCount: 1, results: [fullApp] });
       stubFetch(
@@ -363,6 +372,19 @@ describe('common utilities', () => {
       expect(app.ipadScreenshots).toEqual(['https://example.com/ipad1.png']);
       expect(app.appletvScreenshots).toEqual([]);
       expect(app.supportedDevices).toEqual(['iPhone', 'iPad']);
+      expect(app).toMatchObject({
+        kind: 'software',
+        formattedPrice: 'Free',
+        sellerName: 'King.com Limited',
+        trackContentRating: '4+',
+        advisories: ['Infrequent/Mild Cartoon or Fantasy Violence'],
+        features: ['iosUniversal', 'gameCenter'],
+        isGameCenterEnabled: true,
+        isVppDeviceBasedLicensingEnabled: true,
+        artworkUrl60: 'https://is1-ssl.mzstatic.com/60.png',
+        artworkUrl100: 'https://is1-ssl.mzstatic.com/100.png',
+        trackCensoredName: 'Candy Crush Saga',
+      });
     });
 
     it('uses artworkUrl100 when artworkUrl512 is missing (icon fallback)', async () => {
@@ -670,6 +692,46 @@ describe('common utilities', () => {
     });
   });
 
+  describe('doRequest fetch injection', () => {
+    it('uses requestOptions.fetch instead of the global fetch', async () => {
+      const globalFetch = stubFetch();
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve('from custom'),
+      });
+      const body = await doRequest('https://example.com', { fetch: customFetch });
+      expect(body).toBe('from custom');
+      expect(customFetch).toHaveBeenCalledWith(
+        'https://example.com',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(globalFetch).not.toHaveBeenCalled();
+    });
+
+    it('uses the injected fetch for every retry attempt', async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, text: () => Promise.resolve('') })
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('ok') });
+      const body = await doRequest('https://example.com', { retries: 1, fetch: customFetch });
+      expect(body).toBe('ok');
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('threads the injected fetch through fetchAppPage and lookup', async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 404, text: () => Promise.resolve('') })
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(minimalLookupJson(7)) });
+      expect(
+        await fetchAppPage('https://apps.apple.com/us/app/id7', { fetch: customFetch })
+      ).toBeNull();
+      const apps = await lookup(7, 'id', 'us', undefined, { fetch: customFetch });
+      expect(apps[0]?.id).toBe(7);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('doRequest retries clamp', () => {
     it('clamps retries: -1 to 0 and makes one request', async () => {
       stubFetch(
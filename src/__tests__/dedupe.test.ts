@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { doRequest } from '../lib/common.js';
+import { MemoryCacheStore } from '../lib/cache.js';
+import { CircuitBreaker } from '../lib/circuit-breaker.js';
+import { dedupe } from '../lib/dedupe.js';
+import { RateLimiter } from '../lib/rate-limit.js';
+import type { BeforeRequestContext } from '../types/hooks.js';
+import { privacy } from '../lib/privacy.js';
+import { versionHistory } from '../lib/version-history.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+
+/** fetch mock whose responses resolve only when `respond()` is called, or reject on abort. */
+function deferredFetch(status = 200) {
+  const resolvers: (() => void)[] = [];
+  const fetch = vi.fn().mockImplementation(
+    (url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason as Error));
+        resolvers.push(() =>
+          resolve({
+            ok: status >= 200 && status < 300,
+            status,
+            headers: new Headers(),
+            text: () => Promise.resolve(`body of ${url}`),
+          })
+        );
+      })
+  );
+  return { fetch, respond: () => resolvers.splice(0).forEach((r) => r()) };
+}
+
+describe('in-flight request deduplication', () => {
+  it('should share one round-trip between identical concurrent requests', async () => {
+    const { fetch, respond } = deferredFetch();
+    const pending = [doRequest(LOOKUP_URL, { fetch }), doRequest(LOOKUP_URL, { fetch })];
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    respond();
+    expect(await Promise.all(pending)).toEqual([`body of ${LOOKUP_URL}`, `body of ${LOOKUP_URL}`]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send separate requests for different headers, with dedupe: false, or once settled', async () => {
+    const { fetch, respond } = deferredFetch();
+    const pending = [
+      doRequest(LOOKUP_URL, { fetch }),
+      doRequest(LOOKUP_URL, { fetch, headers: { 'Accept-Language': 'de' } }),
+      doRequest(LOOKUP_URL, { fetch, dedupe: false }),
+    ];
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(3));
+    respond();
+    await Promise.all(pending);
+
+    const next = doRequest(LOOKUP_URL, { fetch });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(4));
+    respond();
+    await next;
+  });
+
+  it('should not share requests across hooks or differing request settings', async () => {
+    const { fetch, respond } = deferredFetch();
+    const beforeRequest = (ctx: BeforeRequestContext) => {
+      ctx.headers.Authorization = 'Bearer tenant-a';
+    };
+    const pending = [
+      doRequest(LOOKUP_URL, { fetch }),
+      doRequest(LOOKUP_URL, { fetch, hooks: { beforeRequest } }),
+      doRequest(LOOKUP_URL, { fetch, hooks: { beforeRequest } }),
+      doRequest(LOOKUP_URL, { fetch, maxBodyBytes: 1000 }),
+      doRequest(LOOKUP_URL, { fetch, circuitBreaker: new CircuitBreaker() }),
+      doRequest(LOOKUP_URL, { fetch, rateLimiter: new RateLimiter() }),
+      doRequest(LOOKUP_URL, { fetch, timeoutMs: 5000 }),
+      doRequest(LOOKUP_URL, { fetch, retries: 1 }),
+    ];
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(8));
+    respond();
+    await Promise.all(pending);
+    const authorized = fetch.mock.calls.filter(
+      (call) => (call[1] as RequestInit & { headers: Record<string, string> }).headers.Authorization
+    );
+    expect(authorized).toHaveLength(2);
+  });
+
+  it('should fetch the app page once for concurrent privacy() and versionHistory()', async () => {
+    const { fetch, respond } = deferredFetch(404);
+    const pending = Promise.all([
+      privacy({ id: 1, requestOptions: { fetch } }),
+      versionHistory({ id: 1, requestOptions: { fetch } }),
+    ]);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    respond();
+    expect(await pending).toEqual([{}, []]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should coalesce concurrent cache misses', async () => {
+    const { fetch, respond } = deferredFetch();
+    const cache = { store: new MemoryCacheStore() };
+    const pending = [
+      doRequest(LOOKUP_URL, { fetch, cache }),
+      doRequest(LOOKUP_URL, { fetch, cache }),
+    ];
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    respond();
+    await Promise.all(pending);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a caller whose signal is already aborted without joining', async () => {
+    const { fetch, respond } = deferredFetch();
+    const send = vi.fn((signal: AbortSignal) => fetch(LOOKUP_URL, { signal }) as Promise<unknown>);
+    const first = new AbortController();
+    const pending = dedupe(fetch, 'k', first.signal, send);
+    const aborted = AbortSignal.abort(new Error('gone'));
+
+    await expect(dedupe(fetch, 'k', aborted, send)).rejects.toThrow('gone');
+    await expect(dedupe(fetch, 'other', aborted, send)).rejects.toThrow('gone');
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // Only the first caller was waiting, so its abort cancels the shared request.
+    first.abort(new Error('first'));
+    await expect(pending).rejects.toThrow('first');
+    expect(fetch.mock.calls[0]![1].signal.aborted).toBe(true);
+    respond();
+  });
+
+  it('should keep the request alive until every caller has aborted', async () => {
+    const { fetch, respond } = deferredFetch();
+    const first = new AbortController();
+    const second = new AbortController();
+    const a = doRequest(LOOKUP_URL, { fetch, signal: first.signal });
+    const b = doRequest(LOOKUP_URL, { fetch, signal: second.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    const requestSignal = (fetch.mock.calls[0]![1] as RequestInit).signal!;
+
+    first.abort();
+    await expect(a).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal.aborted).toBe(false);
+
+    second.abort(new Error('navigated away'));
+    await expect(b).rejects.toThrow('navigated away');
+    expect(requestSignal.aborted).toBe(true);
+
+    // The cancelled request is forgotten; a new call starts a fresh one.
+    const c = doRequest(LOOKUP_URL, { fetch });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+    respond();
+    expect(await c).toBe(`body of ${LOOKUP_URL}`);
+  });
+});
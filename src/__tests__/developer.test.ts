@@ -45,6 +45,21 @@ describe('developer', () => {
     expect(url).toContain('entity=software');
   });
 
+  it('attaches the lookup record as raw with includeRaw', async () => {
+    const record = { kind: 'software', trackId: 100, artistId: 12345, newAppleField: 'x' };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({ resultCount: 1, results: [record] })),
+      })
+    );
+
+    const [app] = await developer({ devId: 12345, includeRaw: true });
+    expect(app!.raw).toEqual(record);
+    expect(app!.id).toBe(100);
+  });
+
   describe.skipIf(!runIntegrationTests)('live API', () => {
     it('should fetch apps by developer ID (Google)', { timeout: 10000 }, async () => {
       // Google's developer ID
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import { createClient } from '../lib/client.js';
+import { DEFAULT_ENDPOINTS, endpointForUrl, endpointUrl } from '../lib/endpoints.js';
+import { ValidationError } from '../lib/errors.js';
+import { list } from '../lib/list.js';
+import type { FetchFunction } from '../types/options.js';
+
+const LOOKUP_BODY = JSON.stringify({
+  resultCount: 1,
+  results: [
+    { kind: 'software', trackId: 1, bundleId: 'com.test.app', screenshotUrls: ['https://a/s.png'] },
+  ],
+});
+
+function recordingFetch(body: string): Mock<FetchFunction> {
+  return vi.fn<FetchFunction>(() => Promise.resolve(new Response(body)));
+}
+
+describe('endpointUrl', () => {
+  it('should use the Apple host by default', () => {
+    expect(endpointUrl('lookup', '/lookup?id=1')).toBe('https://itunes.apple.com/lookup?id=1');
+    expect(endpointUrl('appPage', '/us/app/id1')).toBe(`${DEFAULT_ENDPOINTS.appPage}/us/app/id1`);
+  });
+
+  it('should keep the path and a base path prefix, ignoring a trailing slash', () => {
+    const requestOptions = { endpoints: { lookup: 'https://proxy.internal/itunes/' } };
+    expect(endpointUrl('lookup', '/lookup?id=1', requestOptions)).toBe(
+      'https://proxy.internal/itunes/lookup?id=1'
+    );
+    expect(endpointUrl('search', '/search?term=x', requestOptions)).toBe(
+      'https://itunes.apple.com/search?term=x'
+    );
+  });
+
+  it('should throw ValidationError for a base that is not an absolute http(s) URL', () => {
+    for (const base of ['itunes.apple.com', 'ftp://itunes.apple.com', '/itunes']) {
+      expect(() => endpointUrl('rss', '/us/rss', { endpoints: { rss: base } })).toThrow(
+        expect.objectContaining({ name: 'ValidationError', field: 'endpoints.rss' })
+      );
+    }
+    expect(() => endpointUrl('rss', '/us/rss', { endpoints: { rss: '' } })).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('endpointForUrl on custom hosts', () => {
+  it('should classify URLs by path', () => {
+    expect(endpointForUrl('http://127.0.0.1:8080/itunes/lookup?id=1')).toBe('lookup');
+    expect(endpointForUrl('https://ax.itunes.apple.com/us/rss/topfreeapplications/json')).toBe(
+      'rss'
+    );
+    expect(endpointForUrl('https://mirror.example/us/app/some-app/id123')).toBe('appPage');
+    expect(
+      endpointForUrl('https://mirror.example/WebObjects/MZStore.woa/wa/availableStoreFronts')
+    ).toBe('storefronts');
+  });
+});
+
+describe('requestOptions.endpoints', () => {
+  it('should send RSS requests to a mirror host', async () => {
+    const fetch = recordingFetch(JSON.stringify({ feed: { entry: [] } }));
+    await list({
+      num: 5,
+      requestOptions: { fetch, endpoints: { rss: 'https://ax.itunes.apple.com' } },
+    });
+    const [url] = fetch.mock.calls[0]!;
+    expect(url).toMatch(/^https:\/\/ax\.itunes\.apple\.com\/us\/rss\/topfreeapplications\//);
+  });
+
+  it('should merge client and per-call overrides key by key', async () => {
+    const fetch = recordingFetch(LOOKUP_BODY);
+    const store = createClient({
+      requestOptions: {
+        fetch,
+        endpoints: { lookup: 'https://client.example', rss: 'https://rss.example' },
+      },
+    });
+    await store.app({ id: 1 });
+    await store.app({ id: 1, requestOptions: { endpoints: { lookup: 'https://call.example' } } });
+    await store.list({ num: 1, requestOptions: { endpoints: { lookup: 'https://call.example' } } });
+    const hosts = fetch.mock.calls.map(([url]) => new URL(url).host);
+    expect(hosts).toEqual(['client.example', 'call.example', 'rss.example']);
+  });
+});
@@ -1,5 +1,23 @@
-import { describe, it, expect } from 'vitest';
-import { HttpError, ValidationError } from '../lib/errors.js';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CacheMissError,
+  CassetteMismatchError,
+  HttpError,
+  NotFoundError,
+  RateLimitError,
+  ResponseParseError,
+  ResponseTooLargeError,
+  SchemaDriftError,
+  TimeoutError,
+  ValidationError,
+} from '../lib/errors.js';
+import { doRequest, parseAndValidate, parseJson, resolveAppId } from '../lib/common.js';
+import { app } from '../lib/app.js';
+import { privacy } from '../lib/privacy.js';
+import { reviews } from '../lib/reviews.js';
+import { MemoryCacheStore } from '../lib/cache.js';
+import { Cassette } from '../lib/cassette.js';
+import { iTunesLookupResponseSchema } from '../lib/schemas.js';
 
 describe('HttpError', () => {
   it('extends Error and has message, status, and optional url', () => {
@@ -69,3 +87,131 @@ describe('ValidationError', () => {
     expect(httpErrors).toHaveLength(1);
   });
 });
+
+describe('HttpError subclasses', () => {
+  it('keep HttpError compatibility with fixed statuses and names', () => {
+    const cases: [HttpError, number, string][] = [
+      [new NotFoundError('gone', 'https://x'), 404, 'NotFoundError'],
+      [new RateLimitError('slow down', 'https://x', 2000), 429, 'RateLimitError'],
+      [new TimeoutError('too slow', 'https://x', 50), 408, 'TimeoutError'],
+      [new ResponseParseError('bad json', 500, '<html>', 'https://x'), 500, 'ResponseParseError'],
+    ];
+    for (const [err, status, name] of cases) {
+      expect(err).toBeInstanceOf(HttpError);
+      expect(err.status).toBe(status);
+      expect(err.name).toBe(name);
+      expect(err.url).toBe('https://x');
+    }
+    expect(new RateLimitError('x', undefined, 2000).retryAfterMs).toBe(2000);
+    expect(new TimeoutError('x', undefined, 50).timeoutMs).toBe(50);
+    expect(new ResponseParseError('x', 200, '<html>').bodyPreview).toBe('<html>');
+  });
+
+  it('SchemaDriftError extends ValidationError with field "response" and issues', () => {
+    const issues = [{ code: 'custom' as const, path: ['results'], message: 'bad', input: 1 }];
+    const err = new SchemaDriftError('drift', issues);
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err).not.toBeInstanceOf(HttpError);
+    expect(err.field).toBe('response');
+    expect(err.issues).toBe(issues);
+    expect(err.name).toBe('SchemaDriftError');
+  });
+});
+
+describe('typed errors from requests and parsing', () => {
+  const respond = (status: number, headers: Record<string, string> = {}) =>
+    vi.fn().mockResolvedValue({
+      ok: status < 400,
+      status,
+      headers: new Headers(headers),
+      text: () => Promise.resolve(status < 400 ? '{"resultCount":0,"results":[]}' : ''),
+    });
+
+  it('doRequest throws NotFoundError for 404 and RateLimitError with Retry-After for 429', async () => {
+    await expect(doRequest('https://x.test/', { fetch: respond(404) })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    const err = await doRequest('https://x.test/', {
+      fetch: respond(429, { 'Retry-After': '7' }),
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err).toMatchObject({ status: 429, retryAfterMs: 7000, url: 'https://x.test/' });
+  });
+
+  it('doRequest throws TimeoutError when timeoutMs is exceeded', async () => {
+    const fetch = vi.fn().mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason as Error));
+        })
+    );
+    const err = await doRequest('https://x.test/', { fetch, timeoutMs: 10 }).catch(
+      (e: unknown) => e
+    );
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err).toMatchObject({ status: 408, timeoutMs: 10, name: 'TimeoutError' });
+  });
+
+  it('parseJson throws ResponseParseError with a body preview', () => {
+    let err: unknown;
+    try {
+      parseJson('<html>error</html>');
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(ResponseParseError);
+    expect(err).toMatchObject({ status: 200, bodyPreview: '<html>error</html>' });
+  });
+
+  it('parseAndValidate throws SchemaDriftError with Zod issues', () => {
+    let err: unknown;
+    try {
+      parseAndValidate('{"results":"nope"}', iTunesLookupResponseSchema);
+    } catch (e) {
+      err = e;
+    }
+    expect(err).toBeInstanceOf(SchemaDriftError);
+    expect((err as SchemaDriftError).issues.length).toBeGreaterThan(0);
+  });
+
+  it('app and resolveAppId throw NotFoundError for empty lookups', async () => {
+    const fetch = respond(200);
+    await expect(app({ id: 1, requestOptions: { fetch } })).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      resolveAppId({ appId: 'com.missing', requestOptions: { fetch } })
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('keeps the error class when bundle ID resolution fails', async () => {
+    const err = await privacy({
+      appId: 'com.missing',
+      requestOptions: { fetch: respond(200) },
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(NotFoundError);
+    expect((err as Error).message).toContain('Could not resolve app id "com.missing"');
+  });
+
+  it('rethrows cache, cassette, and body-limit errors from bundle ID resolution unchanged', async () => {
+    const offline = await reviews({
+      appId: 'com.example.app',
+      requestOptions: { cache: { store: new MemoryCacheStore(), offline: true } },
+    }).catch((e: unknown) => e);
+    expect(offline).toBeInstanceOf(CacheMissError);
+    expect((offline as CacheMissError).url).toContain('bundleId=com.example.app');
+
+    const cassette = new Cassette();
+    const replay = await reviews({
+      appId: 'com.example.app',
+      requestOptions: { fetch: cassette.fetch },
+    }).catch((e: unknown) => e);
+    expect(replay).toBeInstanceOf(CassetteMismatchError);
+    expect(replay).toMatchObject({ attempts: 1 });
+
+    const tooLarge = await reviews({
+      appId: 'com.example.app',
+      requestOptions: { fetch: respond(200), maxBodyBytes: { lookup: 10 } },
+    }).catch((e: unknown) => e);
+    expect(tooLarge).toBeInstanceOf(ResponseTooLargeError);
+    expect(tooLarge).toMatchObject({ maxBytes: 10 });
+  });
+});
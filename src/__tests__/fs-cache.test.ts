@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ValidationError } from '../lib/errors.js';
+import { FileSystemCacheStore } from '../lib/fs-cache.js';
+
+const entry = (body: string, expiresAt = 1) => ({ body, storedAt: 0, expiresAt });
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fs-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const objects = () => readdir(join(directory, 'objects'));
+
+  it('should keep entries across instances (process restarts)', async () => {
+    await new FileSystemCacheStore({ directory }).set('a', entry('A', 42));
+    const reopened = new FileSystemCacheStore({ directory });
+    expect(await reopened.get('a')).toEqual({ body: 'A', storedAt: 0, expiresAt: 42 });
+    expect(await reopened.get('b')).toBeUndefined();
+  });
+
+  it('should keep ETag and Last-Modified validators', async () => {
+    const validators = { etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' };
+    await new FileSystemCacheStore({ directory }).set('a', { ...entry('A'), ...validators });
+    expect(await new FileSystemCacheStore({ directory }).get('a')).toEqual({
+      ...entry('A'),
+      ...validators,
+    });
+  });
+
+  it('should store identical bodies once and delete a body when no entry refers to it', async () => {
+    const store = new FileSystemCacheStore({ directory });
+    await store.set('a', entry('same'));
+    await store.set('b', entry('same'));
+    expect(await objects()).toHaveLength(1);
+    await store.delete('a');
+    expect(await objects()).toHaveLength(1);
+    await store.set('b', entry('other'));
+    expect(await objects()).toHaveLength(1);
+    expect((await store.get('b'))?.body).toBe('other');
+  });
+
+  it('should evict the least recently used entries beyond maxEntries and maxBytes', async () => {
+    const store = new FileSystemCacheStore({ directory, maxEntries: 2, maxBytes: 10 });
+    await store.set('a', entry('aaaa'));
+    await store.set('b', entry('bbbb'));
+    await store.get('a'); // a is now most recent
+    await store.set('c', entry('cccc'));
+    expect(await store.get('b')).toBeUndefined();
+    await store.set('d', entry('dddddddd'));
+    expect(await store.size()).toBe(1);
+    expect((await store.get('d'))?.body).toBe('dddddddd');
+    await store.set('e', entry('x'.repeat(11)));
+    expect(await store.size()).toBe(0);
+    expect(await objects()).toEqual([]);
+  });
+
+  it('should prune expired entries and clear everything', async () => {
+    const store = new FileSystemCacheStore({ directory });
+    await store.set('old', entry('old', 1000));
+    await store.set('new', entry('new', 3000));
+    expect(await store.prune(2000)).toBe(1);
+    expect(await store.get('old')).toBeUndefined();
+    expect((await store.get('new'))?.body).toBe('new');
+    await store.clear();
+    expect(await new FileSystemCacheStore({ directory }).size()).toBe(0);
+  });
+
+  it('should treat a corrupt index or a missing body file as a miss', async () => {
+    await writeFile(join(directory, 'index.json'), '{not json');
+    const store = new FileSystemCacheStore({ directory });
+    expect(await store.size()).toBe(0);
+    await store.set('a', entry('A'));
+    await rm(join(directory, 'objects'), { recursive: true });
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.size()).toBe(0);
+  });
+
+  it('should let two stores on one directory write the same files concurrently', async () => {
+    const first = new FileSystemCacheStore({ directory });
+    const second = new FileSystemCacheStore({ directory });
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => (i % 2 ? first : second).set(`k${i}`, entry('same')))
+    );
+    expect(await objects()).toHaveLength(1);
+    expect((await readdir(directory)).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('should track stored bytes through replacement, deletion, and reload', async () => {
+    const store = new FileSystemCacheStore({ directory, maxBytes: 6 });
+    await store.set('a', entry('AAA'));
+    await store.set('a', entry('BBB'));
+    await store.set('b', entry('BBB'));
+    await store.set('c', entry('CCC'));
+    expect(await store.size()).toBe(3);
+    await store.delete('c');
+
+    const reopened = new FileSystemCacheStore({ directory, maxBytes: 6 });
+    await reopened.set('d', entry('DDD'));
+    expect(await reopened.size()).toBe(3);
+    await reopened.set('e', entry('EEE'));
+    expect(await reopened.get('a')).toBeUndefined();
+    expect(await reopened.get('b')).toBeUndefined();
+    expect(await reopened.size()).toBe(2);
+  });
+
+  it('should throw ValidationError for invalid options', () => {
+    expect(() => new FileSystemCacheStore({ directory: '' })).toThrow(ValidationError);
+    expect(() => new FileSystemCacheStore({ directory, maxEntries: 0 })).toThrow(
+      'maxEntries must be a positive integer'
+    );
+    expect(() => new FileSystemCacheStore({ directory, maxBytes: 1.5 })).toThrow(
+      'maxBytes must be a positive integer'
+    );
+  });
+});
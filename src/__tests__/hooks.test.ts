@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { doRequest } from '../lib/common.js';
+import { suggest } from '../lib/suggest.js';
+import { HttpError } from '../lib/errors.js';
+import type {
+  AfterResponseContext,
+  BeforeRequestContext,
+  RequestErrorContext,
+} from '../types/hooks.js';
+import type { RetryContext } from '../types/retry.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+
+const ok = (body: string) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers({ 'content-type': 'text/plain' }),
+  text: () => Promise.resolve(body),
+});
+const failed = (status: number) => ({
+  ok: false,
+  status,
+  headers: new Headers(),
+  text: () => Promise.resolve('error page'),
+});
+
+describe('request hooks', () => {
+  it('should let beforeRequest change the URL and headers of each attempt', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(failed(503)).mockResolvedValueOnce(ok('ok'));
+    const seen: BeforeRequestContext[] = [];
+    await doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 1,
+      retryPolicy: { baseDelayMs: 0 },
+      hooks: {
+        beforeRequest: (ctx) => {
+          seen.push({ ...ctx });
+          ctx.url = ctx.url.replace('https://itunes.apple.com', 'https://proxy.test');
+          ctx.headers['Proxy-Authorization'] = `token-${ctx.attempt}`;
+        },
+      },
+    });
+    expect(seen.map((c) => [c.attempt, c.endpoint])).toEqual([
+      [1, 'lookup'],
+      [2, 'lookup'],
+    ]);
+    expect(fetch).toHaveBeenLastCalledWith(
+      'https://proxy.test/lookup?id=1',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'Proxy-Authorization': 'token-2' }) as unknown,
+      })
+    );
+  });
+
+  it('should pass status, headers, and body to afterResponse', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(failed(503)).mockResolvedValueOnce(ok('ok'));
+    const responses: AfterResponseContext[] = [];
+    await doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 1,
+      retryPolicy: { baseDelayMs: 0 },
+      hooks: { afterResponse: (ctx) => void responses.push(ctx) },
+    });
+    expect(responses.map((r) => [r.status, r.ok, r.body])).toEqual([
+      [503, false, 'error page'],
+      [200, true, 'ok'],
+    ]);
+    expect(responses[1]?.headers.get('content-type')).toBe('text/plain');
+  });
+
+  it('should fail the attempt when afterResponse throws', async () => {
+    const fetch = vi.fn().mockResolvedValue(ok('<html>captcha</html>'));
+    await expect(
+      doRequest(LOOKUP_URL, {
+        fetch,
+        hooks: {
+          afterResponse: ({ body }) => {
+            if (body.includes('captcha')) throw new Error('blocked');
+          },
+        },
+      })
+    ).rejects.toThrow('blocked');
+  });
+
+  it('should call onRetry before each retry and onError once on final failure', async () => {
+    const fetch = vi.fn().mockResolvedValue(failed(503));
+    const retries: RetryContext[] = [];
+    const errors: RequestErrorContext[] = [];
+    const err = await doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 2,
+      retryPolicy: { baseDelayMs: 1, jitter: 'none' },
+      hooks: {
+        onRetry: (ctx) => void retries.push(ctx),
+        onError: (ctx) => void errors.push(ctx),
+      },
+    }).catch((e: unknown) => e);
+    expect(retries.map((r) => [r.attempt, r.status, r.delayMs, r.retryable])).toEqual([
+      [1, 503, 1, true],
+      [2, 503, 2, true],
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ url: LOOKUP_URL, attempts: 3, totalWaitMs: 3 });
+    expect(errors[0]?.error).toBe(err);
+    expect(err).toBeInstanceOf(HttpError);
+  });
+
+  it('should apply to every method, e.g. suggest hints XML', async () => {
+    const fetch = vi.fn().mockResolvedValue(ok('<plist><dict><array></array></dict></plist>'));
+    const endpoints: unknown[] = [];
+    await suggest({
+      term: 'x',
+      requestOptions: {
+        fetch,
+        hooks: { beforeRequest: (ctx) => void endpoints.push(ctx.endpoint) },
+      },
+    });
+    expect(endpoints).toEqual(['hints']);
+  });
+});
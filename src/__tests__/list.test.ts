@@ -9,7 +9,7 @@ vi.mock('../lib/common.js', async (importOriginal) => {
   return {
     ...actual,
     doRequest: vi.fn(),
-    lookup: vi.fn(),
+    lookupInChunks: vi.fn(),
   };
 });
 
@@ -25,7 +25,7 @@ describe('list', () => {
   describe('fixture-based (no network)', () => {
     beforeEach(() => {
       vi.mocked(common.doRequest).mockReset();
-      vi.mocked(common.lookup).mockReset();
+      vi.mocked(common.lookupInChunks).mockReset();
     });
 
     it('returns ListApp[] from minimal RSS fixture and exercises parseEntryLink/parseDeveloperIdFromHref', async () => {
@@ -442,6 +442,26 @@ describe('list', () => {
       expect(results[0]!.free).toBe(false);
     });
 
+    it('attaches the validated feed entry, nested unknown fields included, as raw only with includeRaw', async () => {
+      const entry = {
+        id: {
+          label: 'https://apps.apple.com/us/app/raw/id7',
+          attributes: { 'im:id': '7', 'im:bundleId': 'com.raw.app' },
+        },
+        'im:name': { label: 'Raw' },
+        'im:artist': { label: 'Dev', attributes: { href: 'https://x.test', 'im:newField': 'y' } },
+        category: { attributes: { 'im:id': '6014', term: 'Games', scheme: 'https://x.test/c' } },
+        'im:contentType': { attributes: { term: 'Application' } },
+      };
+      vi.mocked(common.doRequest).mockResolvedValue(JSON.stringify({ feed: { entry: [entry] } }));
+
+      const [withRaw] = await list({ includeRaw: true });
+      const [withoutRaw] = await list();
+
+      expect(withRaw!.raw).toEqual(entry);
+      expect(withoutRaw).not.toHaveProperty('raw');
+    });
+
     it('fullDetail=true extracts IDs from entries, calls lookup, returns App[]', async () => {
       const rssData = {
         feed: {
@@ -484,12 +504,12 @@ describe('list', () => {
 
       // doRequest returns RSS feed
       vi.mocked(common.doRequest).mockResolvedValueOnce(JSON.stringify(rssData));
-      // lookup is called with extracted IDs and returns full App objects
+      // lookupInChunks is called with extracted IDs and returns full App objects
       const fakeApps = [
         { id: 111, appId: 'com.a', title: 'App A', screenshots: [] },
         { id: 222, appId: 'com.b', title: 'App B', screenshots: [] },
       ];
-      vi.mocked(common.lookup).mockResolvedValueOnce(fakeApps as never);
+      vi.mocked(common.lookupInChunks).mockResolvedValueOnce(fakeApps as never);
 
       const results = await list({
         collection: collection.TOP_FREE_IOS,
@@ -502,20 +522,21 @@ describe('list', () => {
       expect(results[0]!).toHaveProperty('screenshots'); // Full App shape
       expect(results[0]!.id).toBe(111);
       expect(results[1]!.id).toBe(222);
-      // doRequest called once for RSS, lookup called once for full details
+      // doRequest called once for RSS, lookupInChunks called once for full details
       expect(common.doRequest).toHaveBeenCalledTimes(1);
-      expect(common.lookup).toHaveBeenCalledTimes(1);
-      expect(common.lookup).toHaveBeenCalledWith(
+      expect(common.lookupInChunks).toHaveBeenCalledTimes(1);
+      expect(common.lookupInChunks).toHaveBeenCalledWith(
         [111, 222],
         'id',
         DEFAULT_COUNTRY,
         undefined,
-        undefined
+        undefined,
+        { includeRaw: false }
       );
     });
 
     it('fullDetail=true returns empty and warns when all entry IDs are invalid', async () => {
-      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
       const rssData = {
         feed: {
           entry: [
@@ -545,20 +566,21 @@ describe('list', () => {
         num: 10,
         fullDetail: true,
         country: DEFAULT_COUNTRY,
+        requestOptions: { logger },
       });
 
       expect(results).toEqual([]);
       // Only RSS feed request, no lookup since no valid IDs
       expect(common.doRequest).toHaveBeenCalledTimes(1);
-      expect(common.lookup).not.toHaveBeenCalled();
-      expect(warnSpy).toHaveBeenCalledWith(
-        'list(): skipped 1 feed entries with missing or invalid id'
+      expect(common.lookupInChunks).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'list(): skipped 1 feed entries with missing or invalid id',
+        { collection: collection.TOP_FREE_IOS, skipped: 1 }
       );
-      warnSpy.mockRestore();
     });
 
     it('warns when entries are skipped in light mode (fullDetail=false)', async () => {
-      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
       const rssData = {
         feed: {
           entry: [
@@ -591,14 +613,15 @@ describe('list', () => {
         collection: collection.TOP_FREE_IOS,
         num: 10,
         country: DEFAULT_COUNTRY,
+        requestOptions: { logger },
       });
 
       expect(results).toHaveLength(1);
       expect(results[0]!.id).toBe(1);
-      expect(warnSpy).toHaveBeenCalledWith(
-        'list(): skipped 1 feed entries with missing or invalid id'
+      expect(logger.warn).toHaveBeenCalledWith(
+        'list(): skipped 1 feed entries with missing or invalid id',
+        { collection: collection.TOP_FREE_IOS, skipped: 1 }
       );
-      warnSpy.mockRestore();
     });
 
     it('list entry with missing optional fields falls back to empty strings', async () => {
@@ -679,7 +702,7 @@ describe('list', () => {
     beforeAll(async () => {
       const actual = await vi.importActual<typeof common>('../lib/common.js');
       vi.mocked(common.doRequest).mockImplementation(actual.doRequest);
-      vi.mocked(common.lookup).mockImplementation(actual.lookup);
+      vi.mocked(common.lookupInChunks).mockImplementation(actual.lookupInChunks);
     });
 
     it('returns ListApp[] when fullDetail is false (default)', { timeout: 10000 }, async () => {
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { doRequest } from '../lib/common.js';
+import { getLogger, setLogger, silentLogger } from '../lib/logger.js';
+import { list } from '../lib/list.js';
+import { ratings } from '../lib/ratings.js';
+import type { Logger } from '../types/logger.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+
+function mockLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } satisfies Logger;
+}
+
+const respond = (body: string, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers(),
+  text: () => Promise.resolve(body),
+});
+
+/** RSS feed with one entry lacking `im:id`, which list() skips and reports. */
+const feedWithInvalidEntry = JSON.stringify({
+  feed: { entry: [{ id: { attributes: { 'im:bundleId': 'com.noid' } } }] },
+});
+
+describe('logger', () => {
+  afterEach(() => {
+    setLogger(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('should be silent by default and never write to the console', async () => {
+    const spies = (['debug', 'info', 'log', 'warn', 'error'] as const).map((m) =>
+      vi.spyOn(console, m).mockImplementation(() => {})
+    );
+    const fetch = vi.fn().mockResolvedValue(respond(feedWithInvalidEntry));
+    await list({ requestOptions: { fetch } });
+    expect(getLogger()).toBe(silentLogger);
+    for (const spy of spies) expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('should use the global logger and let requestOptions.logger override it', async () => {
+    const global = mockLogger();
+    const perCall = mockLogger();
+    setLogger(global);
+    const fetch = vi.fn().mockResolvedValue(respond(feedWithInvalidEntry));
+
+    await list({ requestOptions: { fetch } });
+    expect(global.warn).toHaveBeenCalledTimes(1);
+
+    await list({ requestOptions: { fetch, logger: perCall } });
+    expect(perCall.warn).toHaveBeenCalledTimes(1);
+    expect(global.warn).toHaveBeenCalledTimes(1);
+
+    setLogger(undefined);
+    expect(getLogger()).toBe(silentLogger);
+  });
+
+  it('should log each retry at info level with structured context', async () => {
+    const logger = mockLogger();
+    const fetch = vi.fn().mockResolvedValueOnce(respond('', 503)).mockResolvedValue(respond('ok'));
+    await doRequest(LOOKUP_URL, {
+      fetch,
+      logger,
+      retries: 1,
+      retryPolicy: { baseDelayMs: 1, jitter: 'none' },
+    });
+    expect(logger.info).toHaveBeenCalledWith('Retrying request after 1ms', {
+      url: LOOKUP_URL,
+      endpoint: 'lookup',
+      attempt: 1,
+      status: 503,
+      delayMs: 1,
+      error: expect.stringContaining('503') as unknown,
+    });
+  });
+
+  it('should log ratings histogram mismatches as warnings', async () => {
+    const logger = mockLogger();
+    const fetch = vi.fn().mockResolvedValue(respond('<div class="rating-count">999 Ratings</div>'));
+    const result = await ratings({ id: 1, requestOptions: { fetch, logger } });
+    expect(logger.warn).toHaveBeenCalledTimes(result.warnings!.length);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('does not match total count (999)'),
+      { id: 1, country: 'us', ratings: 999 }
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { createMockAppStore } from '../testing/index.js';
+import { createClient } from '../lib/client.js';
+import { MemoryCacheStore } from '../lib/cache.js';
+import { doRequest } from '../lib/common.js';
+import { ValidationError } from '../lib/errors.js';
+import { MetricsCollector } from '../lib/metrics.js';
+import type { RequestMetricsEvent } from '../types/metrics.js';
+import type { MockAppStore } from '../types/testing.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1&country=us&entity=software';
+
+/** Builds a metrics event with defaults for the fields a test does not care about. */
+function event(overrides: Partial<RequestMetricsEvent>): RequestMetricsEvent {
+  return {
+    schemaVersion: 1,
+    url: LOOKUP_URL,
+    trace: [],
+    startedAt: 0,
+    durationMs: 0,
+    ok: true,
+    bytes: 0,
+    attempts: 1,
+    retries: 0,
+    totalWaitMs: 0,
+    cacheHit: false,
+    deduped: false,
+    ...overrides,
+  };
+}
+
+describe('request metrics', () => {
+  let server: MockAppStore;
+
+  beforeAll(async () => {
+    server = await createMockAppStore({
+      apps: [
+        { id: 1, appId: 'com.example.puzzle', title: 'Puzzle', similarIds: [2] },
+        { id: 2, appId: 'com.example.words', title: 'Words' },
+      ],
+    });
+  });
+  afterEach(() => server.reset());
+  afterAll(() => server.close());
+
+  it('should report each request with its endpoint and the call path from the public method', async () => {
+    const events: RequestMetricsEvent[] = [];
+    const store = createClient({
+      requestOptions: { ...server.requestOptions, metrics: { record: (e) => events.push(e) } },
+    });
+    await store.similar({ appId: 'com.example.puzzle' });
+
+    expect(events.map((e) => [e.endpoint, e.method, e.trace])).toEqual([
+      ['lookup', 'similar', ['similar', 'resolveAppId', 'lookup']],
+      ['appPage', 'similar', ['similar', 'fetchAppPage']],
+      ['lookup', 'similar', ['similar', 'lookup']],
+    ]);
+    for (const e of events) {
+      expect(e).toMatchObject({ schemaVersion: 1, ok: true, status: 200, attempts: 1 });
+      expect(e.bytes).toBeGreaterThan(0);
+      expect(e.durationMs).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should report failures with status, error name, and retries', async () => {
+    const events: RequestMetricsEvent[] = [];
+    server.inject({ status: 503 });
+    await expect(
+      createClient({
+        requestOptions: {
+          ...server.requestOptions,
+          retries: 1,
+          retryPolicy: { baseDelayMs: 1, jitter: 'none' },
+          metrics: { record: (e) => events.push(e) },
+        },
+      }).ratings({ id: 3 })
+    ).rejects.toThrow();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      method: 'ratings',
+      ok: false,
+      status: 404,
+      error: 'NotFoundError',
+      attempts: 2,
+      retries: 1,
+      bytes: 0,
+    });
+  });
+
+  it('should report cache hits and joined requests without attempts', async () => {
+    const events: RequestMetricsEvent[] = [];
+    const fetch = vi
+      .fn()
+      .mockImplementation(() =>
+        Promise.resolve({ ok: true, status: 200, text: () => Promise.resolve('héllo') })
+      );
+    const options = {
+      fetch,
+      cache: { store: new MemoryCacheStore() },
+      metrics: { record: (e: RequestMetricsEvent) => events.push(e) },
+    };
+    await Promise.all([doRequest(LOOKUP_URL, options), doRequest(LOOKUP_URL, options)]);
+    await doRequest(LOOKUP_URL, options);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(events.map((e) => [e.cacheHit, e.deduped, e.attempts, e.bytes])).toEqual([
+      [false, false, 1, 6],
+      [false, true, 0, 6],
+      [true, false, 0, 6],
+    ]);
+    expect(events[2]!.method).toBeUndefined();
+  });
+
+  it('should log and drop events when the sink throws', async () => {
+    const warn = vi.fn();
+    const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => 'ok' });
+    const metrics = {
+      record: () => {
+        throw new Error('sink down');
+      },
+    };
+    const logger = { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() };
+    expect(await doRequest(LOOKUP_URL, { fetch, metrics, logger })).toBe('ok');
+    expect(warn).toHaveBeenCalledWith('Metrics sink failed; event dropped', {
+      url: LOOKUP_URL,
+      error: 'sink down',
+    });
+  });
+});
+
+describe('MetricsCollector', () => {
+  it('should aggregate latency percentiles, error rate, and counts overall and per group', () => {
+    const metrics = new MetricsCollector();
+    for (let ms = 1; ms <= 20; ms++) {
+      metrics.record(event({ durationMs: ms, endpoint: 'lookup', method: 'app', bytes: 10 }));
+    }
+    metrics.record(
+      event({ ok: false, status: 404, error: 'NotFoundError', endpoint: 'appPage', method: 'app' })
+    );
+    metrics.record(event({ ok: false, error: 'TimeoutError', retries: 2, attempts: 3 }));
+    metrics.record(event({ cacheHit: true, attempts: 0, endpoint: 'lookup' }));
+
+    const stats = metrics.stats();
+    expect(stats).toMatchObject({
+      requests: 23,
+      errors: 2,
+      cacheHits: 1,
+      retries: 2,
+      bytes: 200,
+      statuses: { '404': 1 },
+      errorTypes: { NotFoundError: 1, TimeoutError: 1 },
+    });
+    expect(stats.errorRate).toBeCloseTo(2 / 23);
+    expect(stats.byEndpoint.lookup).toMatchObject({
+      requests: 21,
+      latencyMs: { p50: 10, p95: 19, max: 20 },
+    });
+    expect(stats.byEndpoint.appPage).toMatchObject({ requests: 1, errorRate: 1 });
+    expect(stats.byMethod.app).toMatchObject({ requests: 21, errors: 1 });
+    expect(Object.keys(stats.byMethod)).toEqual(['app']);
+
+    metrics.reset();
+    expect(metrics.stats()).toMatchObject({
+      requests: 0,
+      errorRate: 0,
+      latencyMs: { p50: 0, p95: 0, max: 0 },
+      byEndpoint: {},
+    });
+  });
+
+  it('should keep only the most recent maxSamples durations for percentiles', () => {
+    const metrics = new MetricsCollector({ maxSamples: 2 });
+    for (const durationMs of [100, 1, 2]) metrics.record(event({ durationMs }));
+    expect(metrics.stats()).toMatchObject({ requests: 3, latencyMs: { p50: 1, p95: 2, max: 2 } });
+  });
+
+  it('should throw ValidationError for invalid options', () => {
+    expect(() => new MetricsCollector({ maxSamples: 0 })).toThrow(ValidationError);
+    expect(() => new MetricsCollector({ maxSamples: 1.5 })).toThrow('maxSamples');
+  });
+});
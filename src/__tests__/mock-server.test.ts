@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createMockAppStore } from '../testing/index.js';
+import { createClient, type Client } from '../lib/client.js';
+import { NotFoundError, RateLimitError } from '../lib/errors.js';
+import { collection } from '../types/constants.js';
+import type { MockApp, MockAppStore } from '../types/testing.js';
+
+const SCREENSHOT = 'https://is1-ssl.mzstatic.com/image/thumb/a/392x696bb.webp';
+
+const APPS: MockApp[] = [
+  {
+    id: 1,
+    appId: 'com.example.puzzle',
+    title: 'Puzzle Quest',
+    developer: 'Example Games',
+    developerId: 100,
+    genre: 'Games',
+    genreId: 6014,
+    version: '2.0',
+    screenshots: [SCREENSHOT],
+    screenshotsOnPageOnly: true,
+    histogram: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 10 },
+    customerReviews: [
+      {
+        id: 'r1',
+        userName: 'ana',
+        userUrl: 'https://itunes.apple.com/us/reviews/id9',
+        version: '2.0',
+        score: 5,
+        title: 'Great',
+        text: 'Loved it',
+        updated: '2024-01-01T00:00:00-07:00',
+      },
+    ],
+    similarIds: [2],
+    versionHistory: [
+      { versionDisplay: '2.0', releaseDate: '2024-01-01', releaseNotes: 'New levels' },
+    ],
+    privacy: {
+      privacyPolicyUrl: 'https://example.com/privacy',
+      privacyTypes: [
+        {
+          privacyType: 'Identifiers',
+          name: 'Identifiers',
+          description: 'Used for Analytics',
+          dataCategories: ['Device ID'],
+          purposes: ['Analytics'],
+        },
+      ],
+    },
+  },
+  { id: 2, appId: 'com.example.words', title: 'Word Puzzle', developerId: 100, genreId: 6014 },
+  { id: 3, appId: 'com.other.notes', title: 'Notes', genreId: 6000, countries: ['gb'] },
+];
+
+describe('mock App Store server', () => {
+  let server: MockAppStore;
+  let store: Client;
+
+  beforeAll(async () => {
+    server = await createMockAppStore({ apps: APPS, charts: { [collection.TOP_PAID_IOS]: [2] } });
+    store = createClient({
+      requestOptions: { ...server.requestOptions, retries: 1, retryPolicy: { baseDelayMs: 1 } },
+    });
+  });
+  afterEach(() => server.reset());
+  afterAll(() => server.close());
+
+  it('should serve app() with scraped screenshots and ratings from the catalog', async () => {
+    const result = await store.app({ appId: 'com.example.puzzle', ratings: true });
+    expect(result).toMatchObject({
+      id: 1,
+      title: 'Puzzle Quest',
+      developer: 'Example Games',
+      screenshots: [SCREENSHOT],
+      histogram: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 10 },
+    });
+    expect(server.requests.map((r) => r.endpoint)).toEqual([
+      'lookup',
+      'appPage',
+      'customerReviews',
+    ]);
+  });
+
+  it('should serve list, search, developer, suggest, and apps', async () => {
+    expect((await store.list({ num: 10 })).map((a) => a.id)).toEqual([1, 2]);
+    expect((await store.list({ collection: collection.TOP_PAID_IOS })).map((a) => a.id)).toEqual([
+      2,
+    ]);
+    expect(await store.search({ term: 'puzzle', idsOnly: true })).toEqual([1, 2]);
+    expect((await store.developer({ devId: 100 })).map((a) => a.id)).toEqual([1, 2]);
+    expect(await store.suggest({ term: 'puz' })).toEqual([
+      { term: 'Puzzle Quest' },
+      { term: 'Word Puzzle' },
+    ]);
+    expect(await store.apps({ ids: [2, 3, 1] })).toMatchObject({ notFound: [3] });
+    expect((await store.apps({ ids: [3], country: 'gb' })).apps).toHaveLength(1);
+  });
+
+  it('should serve reviews, similar, privacy, and version history from the app page', async () => {
+    expect(await store.reviews({ id: 1 })).toEqual(APPS[0]!.customerReviews);
+    expect((await store.similar({ id: 1 })).map((a) => a.id)).toEqual([2]);
+    expect(await store.privacy({ id: 1 })).toEqual(APPS[0]!.privacy);
+    expect(await store.versionHistory({ id: 1 })).toEqual(APPS[0]!.versionHistory);
+  });
+
+  it('should inject 503, 429, and 404 responses', async () => {
+    server.inject({ endpoint: 'lookup', status: 503 });
+    expect((await store.app({ id: 2 })).id).toBe(2);
+    expect(server.requests.filter((r) => r.endpoint === 'lookup')).toHaveLength(2);
+
+    server.inject({ endpoint: 'search', status: 429, times: 2, headers: { 'Retry-After': '0' } });
+    await expect(store.search({ term: 'puzzle' })).rejects.toBeInstanceOf(RateLimitError);
+
+    server.inject({ endpoint: 'appPage', status: 404 });
+    expect(await store.versionHistory({ id: 1 })).toEqual([]);
+    await expect(store.app({ id: 99 })).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
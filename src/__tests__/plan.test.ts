@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { app } from '../lib/app.js';
+import { availability } from '../lib/availability.js';
+import { MemoryCacheStore } from '../lib/cache.js';
+import { createClient } from '../lib/client.js';
+import { ValidationError } from '../lib/errors.js';
+import { list } from '../lib/list.js';
+import { planRequests } from '../lib/plan.js';
+import { ratings } from '../lib/ratings.js';
+import { similar } from '../lib/similar.js';
+import { suggest } from '../lib/suggest.js';
+import { markets } from '../types/constants.js';
+
+describe('planRequests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should plan app({ ratings: true }) as lookup, page, and ratings without fetching', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    const steps = await planRequests(app, { id: 553834731, country: 'gb', ratings: true });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(steps.map((s) => [s.step, s.method, s.endpoint])).toEqual([
+      [1, 'GET', 'lookup'],
+      [2, 'GET', 'appPage'],
+      [3, 'GET', 'customerReviews'],
+    ]);
+    expect(steps[0]!.url).toBe(
+      'https://itunes.apple.com/lookup?id=553834731&country=gb&entity=software'
+    );
+    expect(steps[2]!.headers['X-Apple-Store-Front']).toBe('143444,12');
+    expect(steps[2]!.headers['User-Agent']).toBeDefined();
+  });
+
+  it('should plan the dependent steps of similar() with placeholder IDs', async () => {
+    const steps = await planRequests(similar, { appId: 'com.example.app' });
+    expect(steps.map((s) => s.url)).toEqual([
+      'https://itunes.apple.com/lookup?bundleId=com.example.app&country=us&entity=software',
+      'https://apps.apple.com/us/app/id0',
+      'https://itunes.apple.com/lookup?id=1&country=us&entity=software',
+    ]);
+  });
+
+  it('should plan one lookup per chunk for list({ fullDetail: true })', async () => {
+    const steps = await planRequests(list, { num: 120, fullDetail: true });
+    expect(steps.map((s) => s.endpoint)).toEqual(['rss', 'lookup', 'lookup', 'lookup']);
+    expect(new URL(steps[3]!.url).searchParams.get('id')?.split(',')).toHaveLength(20);
+  });
+
+  it("should plan without waiting on the caller's or the default rate limiter", async () => {
+    const acquire = vi.fn();
+    const steps = await planRequests(availability, {
+      id: 1,
+      countries: ['us', 'gb'],
+      requestOptions: { rateLimiter: { acquire } },
+    });
+    expect(steps.map((s) => s.endpoint)).toEqual(['lookup', 'lookup']);
+    expect(acquire).not.toHaveBeenCalled();
+    expect(await planRequests(availability, { id: 1 })).toHaveLength(Object.keys(markets).length);
+  });
+
+  it('should reject invalid options before planning any request', async () => {
+    await expect(planRequests(ratings, { id: 1, country: 'zz' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should apply client defaults and endpoints but bypass the cache', async () => {
+    const store = createClient({
+      requestOptions: {
+        headers: { 'User-Agent': 'planner' },
+        endpoints: { hints: 'https://proxy.example' },
+        cache: { store: new MemoryCacheStore() },
+      },
+    });
+    await planRequests(store.suggest, { term: 'x' });
+    const steps = await planRequests(store.suggest, { term: 'x' });
+    expect(steps).toHaveLength(1);
+    expect(steps[0]!.url).toMatch(/^https:\/\/proxy\.example\/WebObjects\/MZSearchHints\.woa\//);
+    expect(steps[0]!.headers['User-Agent']).toBe('planner');
+    expect(await planRequests(suggest, { term: 'x' })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter } from '../lib/rate-limit.js';
+import { doRequest } from '../lib/common.js';
+import { ValidationError } from '../lib/errors.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+const PAGE_URL = 'https://apps.apple.com/us/app/id1';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should space requests by the sustained rate', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ hosts: { 'itunes.apple.com': { requestsPerSecond: 2 } } });
+    const started: number[] = [];
+    const start = Date.now();
+    const calls = [1, 2, 3].map(() =>
+      limiter.schedule(LOOKUP_URL, () => {
+        started.push(Date.now() - start);
+        return Promise.resolve();
+      })
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(calls);
+    expect(started).toEqual([0, 500, 1000]);
+  });
+
+  it('should allow a burst up to the bucket size', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ default: { requestsPerSecond: 1, burst: 2 } });
+    const started: number[] = [];
+    const start = Date.now();
+    const calls = [1, 2, 3].map(() =>
+      limiter.schedule(LOOKUP_URL, () => {
+        started.push(Date.now() - start);
+        return Promise.resolve();
+      })
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(calls);
+    expect(started).toEqual([0, 0, 1000]);
+  });
+
+  it('should cap concurrent requests and serve waiters in order', async () => {
+    const limiter = new RateLimiter({ hosts: { 'itunes.apple.com': { maxConcurrent: 1 } } });
+    const order: number[] = [];
+    const first = await limiter.acquire(LOOKUP_URL);
+    const waiting = [2, 3].map((n) =>
+      limiter.acquire(LOOKUP_URL).then((release) => {
+        order.push(n);
+        release();
+      })
+    );
+    expect(limiter.pending('itunes.apple.com')).toBe(2);
+    first();
+    first(); // second release is a no-op
+    await Promise.all(waiting);
+    expect(order).toEqual([2, 3]);
+    expect(limiter.pending('itunes.apple.com')).toBe(0);
+  });
+
+  it('should keep budgets per host', async () => {
+    const limiter = new RateLimiter({
+      hosts: { 'itunes.apple.com': { maxConcurrent: 1 }, 'apps.apple.com': { maxConcurrent: 1 } },
+    });
+    await limiter.acquire(LOOKUP_URL);
+    const release = await limiter.acquire(PAGE_URL);
+    expect(typeof release).toBe('function');
+  });
+
+  it('should throw ValidationError for invalid budgets', () => {
+    expect(() => new RateLimiter({ default: { requestsPerSecond: 0 } })).toThrow(ValidationError);
+    expect(() => new RateLimiter({ hosts: { 'apps.apple.com': { maxConcurrent: 1.5 } } })).toThrow(
+      'maxConcurrent for apps.apple.com must be a positive integer'
+    );
+    expect(() => new RateLimiter({ default: { burst: 0 } })).toThrow('burst');
+  });
+});
+
+describe('doRequest with rateLimiter', () => {
+  it('should not start a request until the previous one has released its slot', async () => {
+    const rateLimiter = new RateLimiter({ default: { maxConcurrent: 1 } });
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetch = vi.fn().mockImplementation(() => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return Promise.resolve({
+        ok: true,
+        text: () =>
+          new Promise<string>((resolve) =>
+            setTimeout(() => {
+              inFlight--;
+              resolve('ok');
+            }, 5)
+          ),
+      });
+    });
+    const bodies = await Promise.all(
+      [1, 2, 3].map(() => doRequest(LOOKUP_URL, { fetch, rateLimiter }))
+    );
+    expect(bodies).toEqual(['ok', 'ok', 'ok']);
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('should release the slot when the request fails', async () => {
+    const rateLimiter = new RateLimiter({ default: { maxConcurrent: 1 } });
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 500, text: () => Promise.resolve('') })
+      .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('ok') });
+    await expect(doRequest(LOOKUP_URL, { fetch, rateLimiter })).rejects.toThrow('status 500');
+    expect(await doRequest(LOOKUP_URL, { fetch, rateLimiter })).toBe('ok');
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  backoffMs,
+  isRetryable,
+  nextRetryDelayMs,
+  parseRetryAfterMs,
+  resolveRetryPolicy,
+} from '../lib/retry.js';
+import { doRequest } from '../lib/common.js';
+import { HttpError, ValidationError } from '../lib/errors.js';
+import type { RetryContext } from '../types/retry.js';
+
+const LOOKUP_URL = 'https://itunes.apple.com/lookup?id=1';
+
+/** Non-OK response mock; `retryAfter` sets the Retry-After header. */
+function failed(status: number, retryAfter?: string) {
+  return {
+    ok: false,
+    status,
+    headers: new Headers(retryAfter !== undefined ? { 'Retry-After': retryAfter } : {}),
+    text: () => Promise.resolve(''),
+  };
+}
+
+const ok = (body: string) => ({ ok: true, text: () => Promise.resolve(body) });
+
+describe('resolveRetryPolicy', () => {
+  it('should apply defaults', () => {
+    expect(resolveRetryPolicy()).toMatchObject({
+      retryableStatuses: [429, 503],
+      baseDelayMs: 1000,
+      maxDelayMs: 30_000,
+      jitter: 'equal',
+    });
+  });
+
+  it('should throw ValidationError for invalid values', () => {
+    expect(() => resolveRetryPolicy({ baseDelayMs: -1 })).toThrow(ValidationError);
+    expect(() => resolveRetryPolicy({ maxDelayMs: 0 })).toThrow(
+      'Invalid maxDelayMs: must be a positive number, got 0'
+    );
+    expect(() => resolveRetryPolicy({ maxElapsedMs: Number.NaN })).toThrow('maxElapsedMs');
+    expect(() => resolveRetryPolicy({ jitter: 'random' as never })).toThrow('Invalid jitter');
+  });
+});
+
+describe('isRetryable', () => {
+  const policy = resolveRetryPolicy({ retryableStatuses: [500] });
+
+  it('should use the configured statuses', () => {
+    expect(isRetryable(policy, 500, undefined)).toBe(true);
+    expect(isRetryable(policy, 503, undefined)).toBe(false);
+  });
+
+  it('should retry network errors and timeouts', () => {
+    expect(isRetryable(policy, undefined, new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryable(policy, undefined, new DOMException('t', 'TimeoutError'))).toBe(true);
+    expect(isRetryable(policy, undefined, new Error('boom'))).toBe(false);
+  });
+});
+
+describe('backoffMs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should double the base delay and cap it at maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: 'none' });
+    expect([0, 1, 2, 3].map((a) => backoffMs(policy, a))).toEqual([100, 200, 300, 300]);
+  });
+
+  it('should apply full and equal jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffMs(resolveRetryPolicy({ baseDelayMs: 100, jitter: 'full' }), 0)).toBe(0);
+    expect(backoffMs(resolveRetryPolicy({ baseDelayMs: 100, jitter: 'equal' }), 0)).toBe(50);
+  });
+});
+
+describe('parseRetryAfterMs', () => {
+  it('should parse delay seconds', () => {
+    expect(parseRetryAfterMs('2')).toBe(2000);
+    expect(parseRetryAfterMs(' 0 ')).toBe(0);
+  });
+
+  it('should parse an HTTP date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfterMs('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfterMs('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('should return undefined when missing or invalid', () => {
+    expect(parseRetryAfterMs(null)).toBeUndefined();
+    expect(parseRetryAfterMs('')).toBeUndefined();
+    expect(parseRetryAfterMs('soon')).toBeUndefined();
+  });
+});
+
+describe('nextRetryDelayMs', () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'none', maxDelayMs: 1000 });
+  const ctx = { url: LOOKUP_URL, attempt: 1, status: 503, error: new Error('x'), elapsedMs: 0 };
+
+  it('should give up when no attempts are left', () => {
+    expect(nextRetryDelayMs(policy, ctx, false)).toBeUndefined();
+  });
+
+  it('should wait at least Retry-After', () => {
+    expect(nextRetryDelayMs(policy, { ...ctx, retryAfterMs: 700 }, true)).toBe(700);
+    expect(nextRetryDelayMs(policy, { ...ctx, retryAfterMs: 10 }, true)).toBe(100);
+  });
+
+  it('should not retry when Retry-After exceeds maxDelayMs', () => {
+    expect(nextRetryDelayMs(policy, { ...ctx, retryAfterMs: 5000 }, true)).toBeUndefined();
+  });
+
+  it('should stop once maxElapsedMs would be exceeded', () => {
+    const bounded = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'none', maxElapsedMs: 150 });
+    expect(nextRetryDelayMs(bounded, { ...ctx, elapsedMs: 40 }, true)).toBe(100);
+    expect(nextRetryDelayMs(bounded, { ...ctx, elapsedMs: 60 }, true)).toBeUndefined();
+  });
+
+  it('should let shouldRetry override the default classification', () => {
+    const seen: RetryContext[] = [];
+    const custom = resolveRetryPolicy({
+      baseDelayMs: 100,
+      jitter: 'none',
+      shouldRetry: (c) => {
+        seen.push(c);
+        return c.status === 404;
+      },
+    });
+    expect(nextRetryDelayMs(custom, { ...ctx, status: 404 }, true)).toBe(100);
+    expect(nextRetryDelayMs(custom, ctx, true)).toBeUndefined();
+    expect(seen[0]).toMatchObject({ attempt: 1, status: 404, delayMs: 100, retryable: false });
+  });
+});
+
+describe('doRequest with retryPolicy', () => {
+  it('should retry configured statuses and report attempts and total wait', async () => {
+    const fetch = vi.fn().mockResolvedValue(failed(500));
+    const err = await doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 2,
+      retryPolicy: { retryableStatuses: [500], baseDelayMs: 5, jitter: 'none' },
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(HttpError);
+    expect(err).toMatchObject({ status: 500, attempts: 3, totalWaitMs: 15 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should honor Retry-After on 429', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(failed(429, '0')).mockResolvedValueOnce(ok('ok'));
+    const body = await doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 1,
+      retryPolicy: { baseDelayMs: 0 },
+    });
+    expect(body).toBe('ok');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry when Retry-After exceeds maxDelayMs', async () => {
+    const fetch = vi.fn().mockResolvedValue(failed(503, '120'));
+    const err = await doRequest(LOOKUP_URL, { fetch, retries: 3 }).catch((e: unknown) => e);
+    expect(err).toMatchObject({ status: 503, attempts: 1, totalWaitMs: 0 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should attach attempts to network errors', async () => {
+    const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const err = await doRequest(LOOKUP_URL, {
+      fetch,
+      retries: 1,
+      retryPolicy: { baseDelayMs: 1, jitter: 'none' },
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TypeError);
+    expect(err).toMatchObject({ attempts: 2, totalWaitMs: 1 });
+  });
+
+  it('should validate the policy before any request', async () => {
+    const fetch = vi.fn();
+    await expect(
+      doRequest(LOOKUP_URL, { fetch, retryPolicy: { baseDelayMs: Infinity } })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
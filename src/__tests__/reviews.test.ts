@@ -259,6 +259,24 @@ describe('reviews', () => {
     });
   });
 
+  it('attaches the validated feed entry, nested unknown fields included, as raw with includeRaw', async () => {
+    const entry = {
+      id: { label: 'r1' },
+      author: { name: { label: 'User' }, label: '', 'im:country': { label: 'us' } },
+      content: { label: 'Great', attributes: { type: 'text' } },
+      'im:rating': { label: '4' },
+      'im:voteCount': { label: '3' },
+    };
+    vi.mocked(common.doRequest).mockResolvedValue(JSON.stringify({ feed: { entry } }));
+
+    const [withRaw] = await reviews({ id: 553834731, includeRaw: true });
+    const [withoutRaw] = await reviews({ id: 553834731 });
+
+    expect(withRaw!.raw).toEqual(entry);
+    expect(withRaw!.score).toBe(4);
+    expect(withoutRaw).not.toHaveProperty('raw');
+  });
+
   describe('metadata filtering (single-review bug fix)', () => {
     it('returns the review when feed has only one review and no metadata entry', async () => {
       const feed = {
@@ -3,6 +3,7 @@ import { search } from '../lib/search.js';
 import { device } from '../types/constants.js';
 import { runIntegrationTests } from './integration.js';
 import * as common from '../lib/common.js';
+import { ValidationError } from '../lib/errors.js';
 
 vi.mock('../lib/common.js', async (importOriginal) => {
   const actual = await importOriginal<typeof common>();
@@ -35,6 +36,19 @@ describe('search', () => {
     );
   });
 
+  it('attaches the search record as raw only with includeRaw', async () => {
+    const record = { kind: 'software', trackId: 5, trackName: 'Five', newAppleField: [1, 2] };
+    vi.mocked(common.doRequest).mockResolvedValue(
+      JSON.stringify({ resultCount: 1, results: [record] })
+    );
+
+    const [withRaw] = await search({ term: 'five', includeRaw: true });
+    const [withoutRaw] = await search({ term: 'five' });
+
+    expect(withRaw!.raw).toEqual(record);
+    expect(withoutRaw).not.toHaveProperty('raw');
+  });
+
   it('sends entity=software by default', async () => {
     vi.mocked(common.doRequest).mockResolvedValueOnce(
       JSON.stringify({ resultCount: 0, results: [] })
@@ -163,6 +177,38 @@ describe('search', () => {
     expect(url).toContain('lang=en');
   });
 
+  it('warns about, but still sends, a lang the storefront does not list', async () => {
+    vi.mocked(common.doRequest).mockResolvedValue(JSON.stringify({ resultCount: 0, results: [] }));
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    await search({ term: 'test', country: 'us', lang: 'ja_jp', requestOptions: { logger } });
+
+    expect(vi.mocked(common.doRequest).mock.calls[0]![0]).toContain('lang=ja_jp');
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('lang "ja_jp"'), {
+      lang: 'ja_jp',
+      country: 'us',
+    });
+
+    await search({ term: 'test', country: 'gb', lang: 'en-us', requestOptions: { logger } });
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an unsupported lang before sending with strictLang', async () => {
+    vi.mocked(common.doRequest).mockResolvedValue(JSON.stringify({ resultCount: 0, results: [] }));
+    const err = await search({
+      term: 'test',
+      country: 'us',
+      lang: 'ja_jp',
+      requestOptions: { strictLang: true },
+    }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err).toMatchObject({ field: 'lang' });
+    expect(common.doRequest).not.toHaveBeenCalled();
+    await expect(
+      search({ term: 'test', country: 'gb', lang: 'en-us', requestOptions: { strictLang: true } })
+    ).resolves.toBeDefined();
+  });
+
   it('does not include lang parameter when not provided', async () => {
     vi.mocked(common.doRequest).mockResolvedValueOnce(
       JSON.stringify({ resultCount: 0, results: [] })
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { refreshStorefronts, storefronts } from '../lib/storefronts.js';
+import { markets } from '../types/constants.js';
+
+describe('storefronts', () => {
+  it('should describe every market with its store front ID and default language first', () => {
+    const all = storefronts();
+
+    expect(all.map((s) => s.country)).toEqual(Object.keys(markets));
+    for (const s of all) {
+      expect(s.storeFrontId).toBe(markets[s.country]);
+      expect(s.languages[0]).toBe(s.defaultLanguage);
+      expect(s.currency).toMatch(/^[A-Z]{3}$/);
+    }
+    expect(all.find((s) => s.country === 'gb')).toEqual({
+      country: 'gb',
+      name: 'United Kingdom',
+      storeFrontId: 143444,
+      currency: 'GBP',
+      languages: ['en-gb'],
+      defaultLanguage: 'en-gb',
+      region: 'europe',
+    });
+  });
+
+  it('should return copies that callers can change without affecting the registry', () => {
+    const [first] = storefronts();
+    first!.languages.push('xx');
+    const [again] = storefronts();
+    expect(again!.languages).not.toContain('xx');
+  });
+
+  it('should refresh names and languages from Apple and skip storefronts missing from markets', async () => {
+    const body = JSON.stringify({
+      data: [
+        {
+          id: 'ca',
+          type: 'storefronts',
+          attributes: {
+            name: 'Canada (new)',
+            defaultLanguageTag: 'fr-CA',
+            supportedLanguageTags: ['en-CA', 'fr-CA'],
+          },
+        },
+        { id: 'gb' },
+        { id: 'zz', attributes: { name: 'Nowhere' } },
+      ],
+    });
+    const fetch = vi.fn().mockResolvedValue(new Response(body));
+    const warn = vi.fn();
+    const logger = { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() };
+
+    const result = await refreshStorefronts({ requestOptions: { fetch, logger } });
+
+    expect(fetch.mock.calls[0]![0]).toBe(
+      'https://itunes.apple.com/WebObjects/MZStore.woa/wa/availableStoreFronts'
+    );
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      country: 'ca',
+      name: 'Canada (new)',
+      storeFrontId: 143455,
+      currency: 'CAD',
+      languages: ['fr-ca', 'en-ca'],
+      defaultLanguage: 'fr-ca',
+    });
+    expect(result[1]).toMatchObject({
+      country: 'gb',
+      name: 'United Kingdom',
+      languages: ['en-gb'],
+    });
+    expect(warn).toHaveBeenCalledWith(
+      'refreshStorefronts(): skipped 1 storefronts missing from markets',
+      { storefronts: ['zz'] }
+    );
+    expect(storefronts().find((s) => s.country === 'ca')?.name).not.toBe('Canada (new)');
+  });
+
+  it('should throw ValidationError when the refreshed list does not match the schema', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('{"storefronts": []}'));
+    await expect(refreshStorefronts({ requestOptions: { fetch } })).rejects.toMatchObject({
+      field: 'response',
+    });
+  });
+});
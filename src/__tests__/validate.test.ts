@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   validateCountry,
+  isLangSupported,
   validateCollection,
   validateCategory,
   validateDevice,
@@ -57,6 +58,20 @@ describe('validate', () => {
     });
   });
 
+  describe('isLangSupported', () => {
+    it('matches storefront languages by language subtag, in any case or separator', () => {
+      expect(isLangSupported('en-gb', 'gb')).toBe(true);
+      expect(isLangSupported('en_US', 'GB')).toBe(true);
+      expect(isLangSupported('fr', 'ca')).toBe(true);
+      expect(isLangSupported('ja_jp', 'jp')).toBe(true);
+    });
+
+    it('returns false for languages the storefront does not list', () => {
+      expect(isLangSupported('ja', 'de')).toBe(false);
+      expect(isLangSupported('ko', 'gb')).toBe(false);
+    });
+  });
+
   describe('validateCollection', () => {
     it('accepts valid collection values', () => {
       expect(() => validateCollection(collection.TOP_FREE_IOS)).not.toThrow();
@@ -9,18 +9,63 @@
  *
  * ## Main exports
  *
- * **API methods:** `app`, `resolveAppId`, `list`, `search`, `developer`, `reviews`,
- * `ratings`, `similar`, `suggest`, `privacy`, `versionHistory`, `appPageDetails`
+ * **API methods:** `app`, `apps`, `appAcrossCountries`, `availability`, `resolveAppId`, `list`, `search`,
+ * `developer`, `reviews`, `ratings`, `similar`, `suggest`, `privacy`, `versionHistory`, `appPageDetails`,
+ * `storefronts` (storefront registry: names, currencies, languages), `refreshStorefronts` (the registry
+ * with names and languages from Apple's current list)
  *
- * **Errors:** `HttpError` (has `status` and `url`), `RatingsEmptyError` (extends `HttpError`),
- * `ValidationError` (has `field`)
+ * **Availability:** `diffAvailability` (storefronts gained and lost between two `availability` runs),
+ * `DEFAULT_AVAILABILITY_RATE_LIMIT` (request budget `availability` applies without a `rateLimiter`)
+ *
+ * **Client:** `createClient` (all methods bound to shared country, lang, and request options)
+ *
+ * **Dry run:** `planRequests` (the HTTP requests a method would make, without fetching)
+ *
+ * **Caching:** `MemoryCacheStore` (in-memory LRU), `FileSystemCacheStore` (on disk, survives restarts; serve
+ * a previous crawl with `offline: true`); pass via `requestOptions.cache`
+ *
+ * **Circuit breaking:** `CircuitBreaker` (per-endpoint closed/open/half-open circuits; pass via
+ * `requestOptions.circuitBreaker`)
+ *
+ * **Metrics:** `MetricsCollector` (p50/p95 latency, error rates by status, per endpoint and method; pass via
+ * `requestOptions.metrics`, or pass your own sink to forward each request's event)
+ *
+ * **Endpoints:** `DEFAULT_ENDPOINTS` (Apple base URL per endpoint; override via `requestOptions.endpoints`)
+ *
+ * **Body limits:** `DEFAULT_MAX_BODY_BYTES` (response size limit per endpoint; override via
+ * `requestOptions.maxBodyBytes`)
+ *
+ * **Rate limiting:** `RateLimiter` (per-host token bucket + concurrency; pass via `requestOptions.rateLimiter`)
+ *
+ * **Logging:** `setLogger` (global diagnostics logger; silent by default), `silentLogger`; per call or client
+ * via `requestOptions.logger`
+ *
+ * **Testing:** `Cassette` (HTTP record/replay; pass `cassette.fetch` via `requestOptions.fetch`). A mock
+ * App Store server is available from the `@davidshq/app-store-scraper/testing` entry point.
+ *
+ * **Errors:** `HttpError` (has `status`, `url`, and `attempts`/`totalWaitMs` when thrown by a request);
+ * its subclasses `NotFoundError` (404), `RateLimitError` (429, `retryAfterMs`), `TimeoutError` (408, `timeoutMs`),
+ * `ResponseParseError` (`bodyPreview`), `RatingsEmptyError`; `ValidationError` (has `field`) and its subclass
+ * `SchemaDriftError` (`issues`); `CassetteMismatchError` (replay request with no recording);
+ * `CacheMissError` (offline cache has no entry); `CircuitOpenError` (`circuit`,
+ * `retryAfterMs`; request refused by an open circuit); `ResponseTooLargeError` (`maxBytes`; body over
+ * `requestOptions.maxBodyBytes`)
  *
  * **Constants:** `collection`, `category`, `device`, `sort`, `markets`, `DEFAULT_COUNTRY`
  *
- * **Types:** `App`, `ListApp`, `RatingHistogram`, `Ratings`, `SimilarApp`, `SimilarLinkType`,
- * `Review`, `VersionHistory`, `Suggestion`, `PrivacyDetails`, `PrivacyType`, `RequestOptions`,
+ * **Types:** `App`, `AppsResult`, `AppAvailability`, `AvailabilityChange`, `CountryApp`, `ListApp`,
+ * `RatingHistogram`, `Ratings`, `SimilarApp`, `SimilarLinkType`, `Review`, `VersionHistory`, `Suggestion`,
+ * `Storefront`, `StorefrontRegion`, `PrivacyDetails`, `PrivacyType`, `RequestOptions`,
+ * `FetchFunction`, `EndpointName`, `CacheOptions`, `CacheStore`, `CacheEntry`, `CacheEvent`,
+ * `FileSystemCacheStoreOptions`, `RateLimitBudget`, `RateLimiterOptions`, `RequestLimiter`,
+ * `CircuitBreakerOptions`, `CircuitPermit`, `CircuitState`, `CircuitStateChange`, `RequestCircuitBreaker`,
+ * `RequestMetricsEvent`, `MetricsSink`, `MetricsCollectorOptions`, `MetricsStats`, `MetricsSummary`,
+ * `RetryPolicy`, `RetryContext`, `JitterStrategy`,
+ * `RequestHooks`, `BeforeRequestContext`, `AfterResponseContext`, `RequestErrorContext`, `Logger`, `LogContext`,
+ * `CassetteMode`, `CassetteInteraction`, `CassetteFile`, `CassetteOptions`, `PlannedRequest`,
  * `BaseOptions`, and all `*Options` types, plus `AppPageDetailsOptions`, `AppPageDetailsResult`,
- * `SimilarIdEntry`
+ * `SimilarIdEntry`, `Client`, `ClientConfig`, and the raw record types `ITunesAppResponse`,
+ * `RssFeedEntry`, `ReviewEntry` (see `includeRaw`)
  *
  * @example
  * ```ts
@@ -32,6 +77,13 @@
 
 // Export all API methods
 export { app, scrapeScreenshots } from './lib/app.js';
+export { apps } from './lib/apps.js';
+export { appAcrossCountries } from './lib/app-across-countries.js';
+export {
+  availability,
+  diffAvailability,
+  DEFAULT_AVAILABILITY_RATE_LIMIT,
+} from './lib/availability.js';
 export { resolveAppId } from './lib/common.js';
 export { list } from './lib/list.js';
 export { search } from './lib/search.js';
@@ -40,14 +92,44 @@ export { reviews } from './lib/reviews.js';
 export { ratings } from './lib/ratings.js';
 export { similar } from './lib/similar.js';
 export { suggest } from './lib/suggest.js';
+export { storefronts, refreshStorefronts } from './lib/storefronts.js';
 export { privacy } from './lib/privacy.js';
 export { versionHistory } from './lib/version-history.js';
 export { appPageDetails } from './lib/app-page-details.js';
-export { HttpError, RatingsEmptyError, ValidationError } from './lib/errors.js';
+export type { Client, ClientConfig } from './lib/client.js';
+export { createClient } from './lib/client.js';
+export { planRequests } from './lib/plan.js';
+export { MemoryCacheStore } from './lib/cache.js';
+export { FileSystemCacheStore } from './lib/fs-cache.js';
+export { RateLimiter } from './lib/rate-limit.js';
+export { CircuitBreaker } from './lib/circuit-breaker.js';
+export { MetricsCollector } from './lib/metrics.js';
+export { DEFAULT_ENDPOINTS } from './lib/endpoints.js';
+export { DEFAULT_MAX_BODY_BYTES } from './lib/body.js';
+export { setLogger, silentLogger } from './lib/logger.js';
+export { Cassette } from './lib/cassette.js';
+export {
+  HttpError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  ResponseParseError,
+  RatingsEmptyError,
+  ValidationError,
+  SchemaDriftError,
+  CassetteMismatchError,
+  CacheMissError,
+  CircuitOpenError,
+  ResponseTooLargeError,
+} from './lib/errors.js';
 
 // Export types
 export type {
   App,
+  AppAvailability,
+  AppsResult,
+  AvailabilityChange,
+  CountryApp,
   ListApp,
   RatingHistogram,
   Ratings,
@@ -56,12 +138,51 @@ export type {
   Review,
   VersionHistory,
   Suggestion,
+  Storefront,
+  StorefrontRegion,
   PrivacyDetails,
   PrivacyType,
+  FetchFunction,
+  EndpointName,
+  CacheOptions,
+  CacheStore,
+  CacheEntry,
+  CacheEvent,
+  FileSystemCacheStoreOptions,
+  RateLimitBudget,
+  RateLimiterOptions,
+  RequestLimiter,
+  CircuitBreakerOptions,
+  CircuitPermit,
+  CircuitState,
+  CircuitStateChange,
+  RequestCircuitBreaker,
+  RequestMetricsEvent,
+  MetricsSink,
+  MetricsCollectorOptions,
+  MetricsStats,
+  MetricsSummary,
+  RetryPolicy,
+  RetryContext,
+  JitterStrategy,
+  RequestHooks,
+  BeforeRequestContext,
+  AfterResponseContext,
+  RequestErrorContext,
+  Logger,
+  LogContext,
+  CassetteMode,
+  CassetteInteraction,
+  CassetteFile,
+  CassetteOptions,
+  PlannedRequest,
   RequestOptions,
   BaseOptions,
   ResolveAppIdOptions,
   AppOptions,
+  AppsOptions,
+  AppAcrossCountriesOptions,
+  AvailabilityOptions,
   ListOptions,
   SearchOptions,
   DeveloperOptions,
@@ -69,6 +190,7 @@ export type {
   RatingsOptions,
   SimilarOptions,
   SuggestOptions,
+  RefreshStorefrontsOptions,
   PrivacyOptions,
   VersionHistoryOptions,
   Collection,
@@ -81,6 +203,7 @@ export type {
   AppPageDetailsResult,
   SimilarIdEntry,
 } from './lib/app-page-details.js';
+export type { ITunesAppResponse, RssFeedEntry, ReviewEntry } from './lib/schemas.js';
 
 // Export constants
 export { collection, category, device, sort, markets, DEFAULT_COUNTRY } from './types/index.js';
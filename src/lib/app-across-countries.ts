@@ -0,0 +1,81 @@
+import type { App, CountryApp } from '../types/app.js';
+import type { AppAcrossCountriesOptions } from '../types/options.js';
+import { markets } from '../types/constants.js';
+import {
+  DEFAULT_LOOKUP_CONCURRENCY,
+  lookup,
+  mapWithConcurrency,
+  validateRequiredField,
+} from './common.js';
+import { NotFoundError } from './errors.js';
+import { validateConcurrency, validateCountry } from './validate.js';
+import { traced } from './metrics.js';
+
+/**
+ * Looks up one app in many storefronts and returns a per-country table of availability,
+ * price, rating, version, languages, and release date. One lookup request is made per
+ * storefront, with up to `concurrency` in flight.
+ *
+ * Unlike {@link app}, an app missing from a storefront does not throw: its row has
+ * `available: false`. Rows follow the order of `countries` (duplicates are looked up once).
+ * Screenshots are not scraped and ratings are not fetched.
+ *
+ * @param options - `id` or `appId`, plus optional `countries` (default: all {@link markets}) and `concurrency`
+ * @returns Promise resolving to one {@link CountryApp} per storefront
+ * @throws {ValidationError} if neither `id` nor `appId` is provided, or a country or `concurrency` is invalid
+ * @throws {HttpError} on non-OK HTTP responses other than 404 (the whole call fails)
+ *
+ * @example
+ * ```typescript
+ * const table = await appAcrossCountries({ id: 553834731, countries: ['us', 'gb', 'de', 'jp'] });
+ * // [{ country: 'us', available: true, price: 0, currency: 'USD', formattedPrice: 'Free', ... }, ...]
+ * const missing = table.filter((row) => !row.available).map((row) => row.country);
+ * ```
+ */
+export async function appAcrossCountries(
+  options: AppAcrossCountriesOptions
+): Promise<CountryApp[]> {
+  return traced('appAcrossCountries', () => fetchAcrossCountries(options));
+}
+
+async function fetchAcrossCountries(options: AppAcrossCountriesOptions): Promise<CountryApp[]> {
+  validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
+
+  const {
+    id,
+    appId,
+    countries = Object.keys(markets),
+    lang,
+    concurrency = DEFAULT_LOOKUP_CONCURRENCY,
+    requestOptions,
+  } = options;
+  countries.forEach(validateCountry);
+  validateConcurrency(concurrency);
+  // lookupId is defined: validateRequiredField ensures at least one of id, appId is present
+  const lookupId = (id ?? appId) as string | number;
+  const unique = [...new Set(countries.map((c) => c.toLowerCase()))];
+
+  return mapWithConcurrency(unique, concurrency, async (country) => {
+    let found: App[];
+    try {
+      found = await lookup(lookupId, id != null ? 'id' : 'bundleId', country, lang, requestOptions);
+    } catch (err) {
+      if (err instanceof NotFoundError) return { country, available: false };
+      throw err;
+    }
+    const app = found[0];
+    if (app === undefined) return { country, available: false };
+    return {
+      country,
+      available: true,
+      price: app.price,
+      currency: app.currency,
+      formattedPrice: app.formattedPrice,
+      score: app.score,
+      reviews: app.reviews,
+      version: app.version,
+      languages: app.languages,
+      released: app.released,
+    };
+  });
+}
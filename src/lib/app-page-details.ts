@@ -26,6 +26,7 @@ import {
   parseVersionHistoryFromHtml,
   type SimilarIdEntry,
 } from './parsers.js';
+import { traced } from './metrics.js';
 
 /** Options for appPageDetails(). */
 export interface AppPageDetailsOptions {
@@ -72,6 +73,10 @@ export interface AppPageDetailsResult {
 export async function appPageDetails(
   options: AppPageDetailsOptions
 ): Promise<AppPageDetailsResult> {
+  return traced('appPageDetails', () => fetchAppPageDetails(options));
+}
+
+async function fetchAppPageDetails(options: AppPageDetailsOptions): Promise<AppPageDetailsResult> {
   validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
 
   const { appId, country = DEFAULT_COUNTRY, requestOptions } = options;
@@ -90,7 +95,7 @@ export async function appPageDetails(
     throw new ValidationError('Either id or appId is required', 'id/appId');
   }
 
-  const url = appPageUrl(country, id);
+  const url = appPageUrl(country, id, requestOptions);
   const body = await fetchAppPage(url, requestOptions);
   if (body === null) {
     return { privacy: {}, similarIds: [], versionHistory: [] };
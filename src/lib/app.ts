@@ -2,10 +2,12 @@ import * as cheerio from 'cheerio';
 import type { App } from '../types/app.js';
 import type { AppOptions } from '../types/options.js';
 import { DEFAULT_COUNTRY } from '../types/constants.js';
-import { appPageUrl, doRequest, lookup, validateRequiredField } from './common.js';
+import { appPageUrl, doRequest, lookup, validateRequiredField, checkLang } from './common.js';
 import { validateCountry } from './validate.js';
-import { HttpError, RatingsEmptyError } from './errors.js';
+import { CircuitOpenError, HttpError, NotFoundError, RatingsEmptyError } from './errors.js';
+import { getLogger } from './logger.js';
 import { ratings } from './ratings.js';
+import { traced } from './metrics.js';
 
 /**
  * Extracts a clean screenshot URL from srcset attribute.
@@ -103,7 +105,8 @@ export function parseScreenshotsFromHtml(html: string): {
 }
 
 /**
- * Scrapes screenshots from the App Store page when the API doesn't return them
+ * Scrapes screenshots from the App Store page when the API doesn't return them.
+ * A missing page (404) or an open `appPage` circuit (see `requestOptions.circuitBreaker`) yields no screenshots.
  */
 export async function scrapeScreenshots(
   appId: number | string,
@@ -111,14 +114,22 @@ export async function scrapeScreenshots(
   requestOptions?: AppOptions['requestOptions']
 ): Promise<{ screenshots: string[]; ipadScreenshots: string[]; appletvScreenshots: string[] }> {
   try {
-    const url = appPageUrl(country, appId);
-    const body = await doRequest(url, requestOptions);
+    const url = appPageUrl(country, appId, requestOptions);
+    const body = await traced('scrapeScreenshots', () => doRequest(url, requestOptions));
     return parseScreenshotsFromHtml(body);
   } catch (error) {
-    // 404 = app page not found; treat as no screenshots. Other errors (timeout, 500, parse) rethrow.
-    if (!(error instanceof HttpError && error.status === 404)) {
+    // 404 = app page not found; open circuit = page scraping is failing fast. Treat both as no
+    // screenshots so lookup data is still returned. Other errors (timeout, 500, parse) rethrow.
+    const isNotFound = error instanceof HttpError && error.status === 404;
+    if (!isNotFound && !(error instanceof CircuitOpenError)) {
       throw error;
     }
+    getLogger(requestOptions).debug(
+      isNotFound
+        ? 'App page not found; no screenshots scraped'
+        : 'App page circuit open; no screenshots scraped',
+      { id: appId, country }
+    );
     return {
       screenshots: [],
       ipadScreenshots: [],
@@ -133,7 +144,7 @@ export async function scrapeScreenshots(
  * @returns Promise resolving to app details
  * @throws {ValidationError} if neither `id` nor `appId` is provided, or if `country` is invalid
  * @throws {HttpError} on non-OK HTTP response from the iTunes API
- * @throws {Error} if the app is not found in the iTunes lookup
+ * @throws {NotFoundError} if the app is not found in the iTunes lookup
  *
  * @example
  * ```typescript
@@ -148,6 +159,10 @@ export async function scrapeScreenshots(
  * ```
  */
 export async function app(options: AppOptions): Promise<App> {
+  return traced('app', () => fetchApp(options));
+}
+
+async function fetchApp(options: AppOptions): Promise<App> {
   validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
 
   const {
@@ -156,9 +171,11 @@ export async function app(options: AppOptions): Promise<App> {
     country = DEFAULT_COUNTRY,
     lang,
     ratings: includeRatings,
+    includeRaw = false,
     requestOptions,
   } = options;
   validateCountry(country);
+  checkLang(lang, country, requestOptions);
   // lookupId is defined: validateRequiredField ensures at least one of id, appId is present
   const lookupId = (id ?? appId) as string | number;
 
@@ -167,11 +184,12 @@ export async function app(options: AppOptions): Promise<App> {
     id != null ? 'id' : 'bundleId',
     country,
     lang,
-    requestOptions
+    requestOptions,
+    includeRaw
   );
 
   if (apps.length === 0) {
-    throw new HttpError(`App not found: ${id || appId}`, 404);
+    throw new NotFoundError(`App not found: ${id || appId}`);
   }
 
   const appData = apps[0]!;
@@ -185,6 +203,10 @@ export async function app(options: AppOptions): Promise<App> {
   let result: App = appData;
 
   if (hasNoScreenshots) {
+    getLogger(requestOptions).debug('Lookup returned no screenshots; scraping app page', {
+      id: appData.id,
+      country,
+    });
     const scrapedScreenshots = await scrapeScreenshots(appData.id, country, requestOptions);
     result = {
       ...result,
@@ -210,6 +232,10 @@ export async function app(options: AppOptions): Promise<App> {
       if (!isNotFound && !isEmpty) {
         throw error;
       }
+      getLogger(requestOptions).debug('No ratings available; omitting histogram', {
+        id: appData.id,
+        country,
+      });
     }
   }
 
@@ -0,0 +1,97 @@
+import type { App, AppsResult } from '../types/app.js';
+import type { AppsOptions } from '../types/options.js';
+import { DEFAULT_COUNTRY } from '../types/constants.js';
+import {
+  DEFAULT_LOOKUP_CHUNK_SIZE,
+  DEFAULT_LOOKUP_CONCURRENCY,
+  lookupInChunks,
+  checkLang,
+} from './common.js';
+import { ValidationError } from './errors.js';
+import { validateChunkSize, validateConcurrency, validateCountry } from './validate.js';
+import { traced } from './metrics.js';
+
+/**
+ * Retrieves many apps at once via the iTunes lookup API. IDs are split into chunks of
+ * `chunkSize` per request, and up to `concurrency` requests run in parallel.
+ * Apps are returned in input order; IDs the API did not return are listed in `notFound`
+ * instead of being silently dropped.
+ *
+ * Bundle IDs are matched case-insensitively. Duplicate IDs are looked up once.
+ * Screenshots are not scraped and ratings are not fetched (use {@link app} for that).
+ *
+ * @param options - Either `ids` (track IDs) or `appIds` (bundle IDs), plus optional `chunkSize`, `concurrency`
+ * @returns Promise resolving to `{ apps, notFound }`
+ * @throws {ValidationError} if neither or both of `ids`/`appIds` are given, or `country`/`chunkSize`/`concurrency` are invalid
+ * @throws {HttpError} on non-OK HTTP response from the iTunes API (the whole batch fails)
+ *
+ * @example
+ * ```typescript
+ * const { apps, notFound } = await apps({ ids: [553834731, 479516143, 1], chunkSize: 100 });
+ * // notFound: [1]
+ * ```
+ */
+export async function apps(options: AppsOptions): Promise<AppsResult> {
+  return traced('apps', () => fetchApps(options));
+}
+
+async function fetchApps(options: AppsOptions): Promise<AppsResult> {
+  const {
+    ids,
+    appIds,
+    country = DEFAULT_COUNTRY,
+    lang,
+    chunkSize = DEFAULT_LOOKUP_CHUNK_SIZE,
+    concurrency = DEFAULT_LOOKUP_CONCURRENCY,
+    requestOptions,
+  } = options;
+
+  validateCountry(country);
+  checkLang(lang, country, requestOptions);
+  validateChunkSize(chunkSize);
+  validateConcurrency(concurrency);
+  if ((ids == null) === (appIds == null)) {
+    throw new ValidationError('Provide exactly one of ids or appIds', 'ids/appIds');
+  }
+
+  if (ids != null) {
+    const unique = [...new Set(ids)];
+    const found = await lookupInChunks(unique, 'id', country, lang, requestOptions, {
+      chunkSize,
+      concurrency,
+    });
+    return inInputOrder(unique, found, (a) => a.id);
+  }
+
+  const unique = [...new Map(appIds!.map((id) => [id.toLowerCase(), id])).values()];
+  const found = await lookupInChunks(unique, 'bundleId', country, lang, requestOptions, {
+    chunkSize,
+    concurrency,
+  });
+  return inInputOrder(
+    unique.map((id) => id.toLowerCase()),
+    found,
+    (a) => a.appId.toLowerCase(),
+    unique
+  );
+}
+
+/**
+ * Orders `found` by the requested `keys` and collects keys with no matching app.
+ * `requested` holds the IDs to report in `notFound` (defaults to `keys`).
+ */
+function inInputOrder<K extends number | string>(
+  keys: K[],
+  found: App[],
+  keyOf: (app: App) => K,
+  requested: (number | string)[] = keys
+): AppsResult {
+  const byKey = new Map(found.map((a) => [keyOf(a), a]));
+  const result: AppsResult = { apps: [], notFound: [] };
+  keys.forEach((key, i) => {
+    const match = byKey.get(key);
+    if (match) result.apps.push(match);
+    else result.notFound.push(requested[i]!);
+  });
+  return result;
+}
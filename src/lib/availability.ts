@@ -0,0 +1,144 @@
+import type { App, AppAvailability, AvailabilityChange } from '../types/app.js';
+import type { AvailabilityOptions, RequestOptions } from '../types/options.js';
+import type { RateLimitBudget } from '../types/rate-limit.js';
+import { markets } from '../types/constants.js';
+import {
+  DEFAULT_LOOKUP_CONCURRENCY,
+  ensureArray,
+  lookupInChunks,
+  mapWithConcurrency,
+} from './common.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import { RateLimiter } from './rate-limit.js';
+import { validateConcurrency, validateCountry } from './validate.js';
+import { traced } from './metrics.js';
+
+/**
+ * Request budget {@link availability} applies when `requestOptions.rateLimiter` is not set, so
+ * checking every storefront does not burst ~175 lookups at Apple.
+ */
+export const DEFAULT_AVAILABILITY_RATE_LIMIT: Readonly<RateLimitBudget> = {
+  requestsPerSecond: 5,
+};
+
+/** Limiter shared by every {@link availability} call without its own, so concurrent calls split one budget. */
+const defaultLimiter = new RateLimiter({ default: DEFAULT_AVAILABILITY_RATE_LIMIT });
+
+/**
+ * Checks in which storefronts one or more apps are available. Each storefront costs one lookup
+ * request per 50 apps; up to `concurrency` storefronts are checked at once, paced by
+ * `requestOptions.rateLimiter` or, when none is set, one limiter using
+ * {@link DEFAULT_AVAILABILITY_RATE_LIMIT} shared by all such calls.
+ *
+ * An app counts as available in a storefront when the lookup API returns it there; a 404 marks
+ * the whole batch unavailable in that storefront. Bundle IDs are matched case-insensitively and
+ * duplicate IDs are checked once. Store results and pass two runs to {@link diffAvailability}
+ * to see storefronts gained and lost.
+ *
+ * @param options - Either `id` (track IDs) or `appId` (bundle IDs), plus optional `countries` (default: all {@link markets}) and `concurrency`
+ * @returns Promise resolving to one {@link AppAvailability} per requested app, in input order
+ * @throws {ValidationError} if neither or both of `id`/`appId` are given, or a country or `concurrency` is invalid
+ * @throws {HttpError} on non-OK HTTP responses other than 404 (the whole call fails)
+ *
+ * @example
+ * ```typescript
+ * const [minecraft] = await availability({ id: 479516143 });
+ * // { id: 479516143, available: ['dz', 'ao', ...], unavailable: ['cn', ...] }
+ * const batch = await availability({ appId: ['com.a', 'com.b'], countries: ['us', 'gb', 'de'] });
+ * ```
+ */
+export async function availability(options: AvailabilityOptions): Promise<AppAvailability[]> {
+  return traced('availability', () => checkAvailability(options));
+}
+
+async function checkAvailability(options: AvailabilityOptions): Promise<AppAvailability[]> {
+  const {
+    id,
+    appId,
+    countries = Object.keys(markets),
+    concurrency = DEFAULT_LOOKUP_CONCURRENCY,
+    requestOptions,
+  } = options;
+
+  if ((id == null) === (appId == null)) {
+    throw new ValidationError('Provide exactly one of id or appId', 'id/appId');
+  }
+  countries.forEach(validateCountry);
+  validateConcurrency(concurrency);
+
+  const requested = new Map<number | string, number | string>(
+    id != null
+      ? ensureArray(id).map((i) => [i, i])
+      : ensureArray(appId).map((i) => [i.toLowerCase(), i])
+  );
+  const ids = [...requested.values()] as number[] | string[];
+  const keyOf = (a: App): number | string => (id != null ? a.id : a.appId.toLowerCase());
+  const storefronts = [...new Set(countries.map((c) => c.toLowerCase()))];
+  const limited: RequestOptions = {
+    ...requestOptions,
+    rateLimiter: requestOptions?.rateLimiter ?? defaultLimiter,
+  };
+
+  const found = await mapWithConcurrency(storefronts, concurrency, async (country) => {
+    try {
+      const apps = await lookupInChunks(
+        ids,
+        id != null ? 'id' : 'bundleId',
+        country,
+        undefined,
+        limited,
+        { concurrency: 1 }
+      );
+      return new Set(apps.map(keyOf));
+    } catch (err) {
+      if (err instanceof NotFoundError) return new Set<number | string>();
+      throw err;
+    }
+  });
+
+  return [...requested].map(([key, given]) => {
+    const result: AppAvailability = { id: given, available: [], unavailable: [] };
+    storefronts.forEach((country, i) => {
+      (found[i]!.has(key) ? result.available : result.unavailable).push(country);
+    });
+    return result;
+  });
+}
+
+/**
+ * Compares two {@link availability} runs and reports, per app, the storefronts it gained
+ * (unavailable before, available now) and lost (available before, unavailable now).
+ *
+ * Only storefronts checked in both runs are compared, and apps missing from either run are
+ * skipped. Apps are matched by ID (bundle IDs case-insensitively); apps without changes are
+ * omitted.
+ *
+ * @param previous - Result of the earlier run
+ * @param current - Result of the later run
+ * @returns One {@link AvailabilityChange} per changed app, in the order of `current`
+ *
+ * @example
+ * ```typescript
+ * const changes = diffAvailability(yesterday, await availability({ id: 479516143 }));
+ * // [{ id: 479516143, gained: ['vn'], lost: [] }]
+ * ```
+ */
+export function diffAvailability(
+  previous: AppAvailability[],
+  current: AppAvailability[]
+): AvailabilityChange[] {
+  const before = new Map(previous.map((a) => [availabilityKey(a.id), a]));
+  const changes: AvailabilityChange[] = [];
+  for (const now of current) {
+    const then = before.get(availabilityKey(now.id));
+    if (then === undefined) continue;
+    const gained = now.available.filter((country) => then.unavailable.includes(country));
+    const lost = now.unavailable.filter((country) => then.available.includes(country));
+    if (gained.length > 0 || lost.length > 0) changes.push({ id: now.id, gained, lost });
+  }
+  return changes;
+}
+
+function availabilityKey(id: number | string): number | string {
+  return typeof id === 'string' ? id.toLowerCase() : id;
+}
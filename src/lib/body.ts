@@ -0,0 +1,95 @@
+/**
+ * Response body reading with a size limit, used by `doRequest`.
+ *
+ * Bodies are streamed and counted as they arrive, so an oversized response (a misbehaving proxy,
+ * an unexpected payload) is cut off at the limit instead of being buffered whole.
+ */
+import type { EndpointName } from '../types/options.js';
+import { ResponseTooLargeError, ValidationError } from './errors.js';
+
+const MiB = 1024 * 1024;
+
+/**
+ * Default `maxBodyBytes` per endpoint: generous for the largest responses Apple sends (full app-page
+ * HTML, 200-result searches and charts) while bounding memory per request.
+ */
+export const DEFAULT_MAX_BODY_BYTES: Readonly<Record<EndpointName, number>> = {
+  lookup: 10 * MiB,
+  search: 10 * MiB,
+  rss: 10 * MiB,
+  customerReviews: 5 * MiB,
+  hints: 1 * MiB,
+  appPage: 20 * MiB,
+  storefronts: 1 * MiB,
+};
+
+/** Limit for URLs that match no known endpoint. */
+const DEFAULT_MAX_BODY_BYTES_OTHER = 20 * MiB;
+
+/**
+ * Resolves the body size limit for a request: a number applies to every endpoint; a record
+ * overrides the defaults for the endpoints it lists.
+ * @throws {ValidationError} with field `maxBodyBytes` (or `maxBodyBytes.<endpoint>`) if the limit
+ *   is not a positive number (`Infinity` disables the limit)
+ * @internal
+ */
+export function maxBodyBytesFor(
+  option: number | Partial<Record<EndpointName, number>> | undefined,
+  endpoint: EndpointName | undefined
+): number {
+  const defaultLimit =
+    endpoint !== undefined ? DEFAULT_MAX_BODY_BYTES[endpoint] : DEFAULT_MAX_BODY_BYTES_OTHER;
+  if (typeof option === 'number') return validLimit(option, 'maxBodyBytes');
+  const override = endpoint !== undefined ? option?.[endpoint] : undefined;
+  if (override === undefined) return defaultLimit;
+  return validLimit(override, `maxBodyBytes.${endpoint}`);
+}
+
+function validLimit(value: number, field: string): number {
+  if (typeof value !== 'number' || Number.isNaN(value) || value <= 0) {
+    throw new ValidationError(`${field} must be a positive number, got ${String(value)}`, field);
+  }
+  return value;
+}
+
+/**
+ * Reads the response body as text, rejecting with {@link ResponseTooLargeError} once more than
+ * `maxBytes` bytes arrive (or up front when `Content-Length` exceeds it). The rest of the body is
+ * cancelled. Responses without a body stream (e.g. test doubles) are read with `text()` and checked
+ * afterwards.
+ * @internal
+ */
+export async function readBody(response: Response, maxBytes: number, url: string): Promise<string> {
+  const tooLarge = () =>
+    new ResponseTooLargeError(
+      `Response from ${url} exceeds maxBodyBytes (${maxBytes} bytes)`,
+      url,
+      maxBytes
+    );
+  const declared = Number(response.headers?.get('content-length') ?? NaN);
+  if (declared > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    throw tooLarge();
+  }
+  if (!response.body) {
+    const text = await response.text();
+    if (Buffer.byteLength(text) > maxBytes) throw tooLarge();
+    return text;
+  }
+
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
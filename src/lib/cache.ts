@@ -0,0 +1,212 @@
+/**
+ * Response cache used by `doRequest`.
+ *
+ * Successful response bodies are stored in a pluggable {@link CacheStore} keyed by
+ * URL plus the request headers that change the response (store front, language).
+ * Freshness is decided here, not in the store: stores only persist entries, so a
+ * custom store (Redis, file system, ...) needs no TTL logic of its own. Expired entries
+ * that carry validators (`ETag`, `Last-Modified`) are revalidated with a conditional request.
+ */
+import type { CacheEntry, CacheOptions, CacheStore } from '../types/cache.js';
+import type { EndpointName } from '../types/options.js';
+import { CacheMissError, ValidationError } from './errors.js';
+
+/** Default time-to-live for cached responses (5 minutes). */
+const DEFAULT_CACHE_TTL_MS = 5 * 60_000;
+
+/** Default maximum number of entries kept by {@link MemoryCacheStore}. */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Request headers that change Apple's response for the same URL and are therefore part
+ * of the cache key (lower-cased). `X-Apple-Store-Front` selects the storefront for ratings.
+ */
+const CACHE_KEY_HEADERS = ['x-apple-store-front', 'accept-language'];
+
+/**
+ * In-memory LRU cache store. Entries are evicted least-recently-used first once
+ * `maxEntries` is exceeded. Not shared between processes.
+ *
+ * @example
+ * ```typescript
+ * const cache = { store: new MemoryCacheStore({ maxEntries: 500 }), ttlMs: 60_000 };
+ * const store = createClient({ requestOptions: { cache } });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param options - `maxEntries` (default 1000); must be a positive integer
+   * @throws {ValidationError} with field "maxEntries" if invalid
+   */
+  constructor(options: { maxEntries?: number } = {}) {
+    const { maxEntries = DEFAULT_MAX_ENTRIES } = options;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new ValidationError('maxEntries must be a positive integer', 'maxEntries');
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  /** Number of entries currently stored. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) return undefined;
+    // Re-insert so Map iteration order reflects recency.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Builds the cache key for a request: the URL plus any {@link CACHE_KEY_HEADERS} that are set.
+ * Header names are matched case-insensitively.
+ * @internal
+ */
+export function cacheKey(url: string, headers: Record<string, string>): string {
+  const lower = new Map(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  const parts = [url];
+  for (const name of CACHE_KEY_HEADERS) {
+    const value = lower.get(name);
+    if (value !== undefined) parts.push(`${name}:${value}`);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Returns the TTL for an endpoint: the per-endpoint override when set, otherwise `ttlMs`.
+ * A TTL of 0 or less disables caching for that endpoint.
+ * @internal
+ */
+export function cacheTtlMs(cache: CacheOptions, endpoint: EndpointName | undefined): number {
+  const override = endpoint !== undefined ? cache.endpointTtlMs?.[endpoint] : undefined;
+  return override ?? cache.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+}
+
+/**
+ * Response returned to {@link withCache} by its `load` callback: a successful body with its
+ * validators, or a 304 (`status: 304`, empty body) answering a conditional request.
+ * @internal
+ */
+export interface LoadedResponse {
+  status: number;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Conditional request headers for revalidating `entry`: `If-None-Match` from its ETag and
+ * `If-Modified-Since` from its Last-Modified date; undefined when it has neither.
+ * @internal
+ */
+export function conditionalHeaders(
+  entry: CacheEntry | undefined
+): Record<string, string> | undefined {
+  if (entry?.etag === undefined && entry?.lastModified === undefined) return undefined;
+  return {
+    ...(entry.etag !== undefined ? { 'If-None-Match': entry.etag } : {}),
+    ...(entry.lastModified !== undefined ? { 'If-Modified-Since': entry.lastModified } : {}),
+  };
+}
+
+/**
+ * Serves a request from the cache when a fresh entry exists; otherwise calls `load`,
+ * stores the body (when the endpoint TTL is positive), and returns it.
+ * A stale entry with validators is revalidated: `load` receives the conditional headers to send,
+ * and a 304 renews the entry's freshness and returns its body.
+ * Only bodies returned by `load` are cached, so failed requests (thrown errors) never are.
+ * In offline mode any stored entry is served, whatever its age or TTL, and `load` is never called.
+ * @throws {CacheMissError} in offline mode when the store has no entry for the request
+ * @internal
+ */
+export async function withCache(
+  cache: CacheOptions,
+  url: string,
+  headers: Record<string, string>,
+  endpoint: EndpointName | undefined,
+  load: (conditional?: Record<string, string>) => Promise<LoadedResponse>
+): Promise<string> {
+  const key = cacheKey(url, headers);
+  if (cache.offline) return readOffline(cache, key, url, endpoint);
+  const ttlMs = cacheTtlMs(cache, endpoint);
+  if (ttlMs <= 0) return (await load()).body;
+
+  const entry = await cache.store.get(key);
+  if (entry !== undefined && entry.expiresAt > Date.now()) {
+    cache.onEvent?.({ type: 'hit', key, url, endpoint });
+    return entry.body;
+  }
+  cache.onEvent?.({ type: 'miss', key, url, endpoint });
+
+  const conditional = conditionalHeaders(entry);
+  const response = await load(conditional);
+  const storedAt = Date.now();
+  if (response.status === 304 && entry !== undefined && conditional !== undefined) {
+    await cache.store.set(key, {
+      ...entry,
+      ...validators(response),
+      storedAt,
+      expiresAt: storedAt + ttlMs,
+    });
+    cache.onEvent?.({ type: 'revalidated', key, url, endpoint });
+    return entry.body;
+  }
+  const { body } = response;
+  await cache.store.set(key, {
+    body,
+    storedAt,
+    expiresAt: storedAt + ttlMs,
+    ...validators(response),
+  });
+  cache.onEvent?.({ type: 'set', key, url, endpoint });
+  return body;
+}
+
+/** The validators a response carries, omitting absent ones. */
+function validators(response: LoadedResponse): Pick<CacheEntry, 'etag' | 'lastModified'> {
+  return {
+    ...(response.etag !== undefined ? { etag: response.etag } : {}),
+    ...(response.lastModified !== undefined ? { lastModified: response.lastModified } : {}),
+  };
+}
+
+/** Offline lookup for {@link withCache}: the stored body, whatever its age, or a {@link CacheMissError}. */
+async function readOffline(
+  cache: CacheOptions,
+  key: string,
+  url: string,
+  endpoint: EndpointName | undefined
+): Promise<string> {
+  const entry = await cache.store.get(key);
+  if (entry === undefined) {
+    cache.onEvent?.({ type: 'miss', key, url, endpoint });
+    throw new CacheMissError(`No cached response for ${url} (offline mode)`, url, key);
+  }
+  cache.onEvent?.({ type: 'hit', key, url, endpoint });
+  return entry.body;
+}
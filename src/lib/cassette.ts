@@ -0,0 +1,223 @@
+/**
+ * HTTP record/replay ("cassettes") for deterministic tests.
+ *
+ * A {@link Cassette} is a {@link FetchFunction}: pass `cassette.fetch` as `requestOptions.fetch`
+ * so every request made by `doRequest` (lookup and search JSON, RSS JSON, hints XML, ratings and
+ * app-page HTML) is recorded to, or replayed from, the cassette. Bodies are stored as decoded text,
+ * exactly as received, so parsing runs unchanged during replay.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import type {
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+} from '../types/cassette.js';
+import type { FetchFunction } from '../types/options.js';
+import { CassetteMismatchError, ValidationError } from './errors.js';
+
+/** Request headers that must match by default (they change Apple's response for the same URL). */
+const DEFAULT_MATCH_HEADERS = ['x-apple-store-front', 'accept-language'];
+
+/** Request headers whose values are never written to a cassette. */
+const REDACTED_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie']);
+
+/**
+ * Response headers that describe the transfer rather than the decoded body stored in a cassette
+ * (e.g. a gzip `Content-Length`); they are dropped when recording and ignored when replaying.
+ */
+const TRANSFER_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+/** Statuses for which `Response` must be constructed without a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Records HTTP interactions to a cassette file, or replays them without network access.
+ * In replay mode a request with no recorded interaction rejects with {@link CassetteMismatchError}.
+ * Requests match on method, URL, and the `matchHeaders`; repeated requests are answered in recorded
+ * order (the last recording is reused once exhausted), so recorded retries replay faithfully.
+ * With a `path`, record mode writes the file after each interaction and replay mode reads it
+ * before the first request.
+ *
+ * @example
+ * ```typescript
+ * // Record once against the live API
+ * const recorder = new Cassette({ mode: 'record' });
+ * await app({ id: 553834731, requestOptions: { fetch: recorder.fetch } });
+ * await recorder.save('fixtures/candy-crush.json');
+ *
+ * // Replay in tests (no network)
+ * const cassette = new Cassette({ path: 'fixtures/candy-crush.json' });
+ * const store = createClient({ requestOptions: { fetch: cassette.fetch } });
+ * await store.app({ id: 553834731 });
+ * ```
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  private readonly recorded: CassetteInteraction[];
+  private readonly matchHeaders: string[];
+  private readonly transport: FetchFunction | undefined;
+  private readonly path: string | undefined;
+  /** Replay: reading `path` (started by the first request). */
+  private loading: Promise<void> | undefined;
+  /** Record: the last write to `path`, so writes happen one at a time and in order. */
+  private writing: Promise<void> = Promise.resolve();
+  /** Replay position per request key. */
+  private readonly served = new Map<string, number>();
+
+  /**
+   * @param options - `mode` (default `'replay'`), `interactions`, `fetch` (record transport),
+   *   `matchHeaders`, `path`
+   * @throws {ValidationError} with field "mode" if `mode` is not `'record'` or `'replay'`
+   */
+  constructor(options: CassetteOptions = {}) {
+    const {
+      mode = 'replay',
+      interactions = [],
+      fetch,
+      matchHeaders = DEFAULT_MATCH_HEADERS,
+      path,
+    } = options;
+    if (mode !== 'record' && mode !== 'replay') {
+      throw new ValidationError(`mode must be "record" or "replay", got ${String(mode)}`, 'mode');
+    }
+    this.mode = mode;
+    this.recorded = [...interactions];
+    this.matchHeaders = matchHeaders.map((name) => name.toLowerCase());
+    this.transport = fetch;
+    this.path = path;
+  }
+
+  /**
+   * Reads a cassette written by {@link Cassette.save}.
+   * @param path - Cassette file path
+   * @param options - Cassette options other than `interactions` and `path` (mode defaults to `'replay'`)
+   * @throws {ValidationError} with field "path" if the file is not a cassette
+   */
+  static async load(
+    path: string,
+    options: Omit<CassetteOptions, 'interactions' | 'path'> = {}
+  ): Promise<Cassette> {
+    return new Cassette({ ...options, interactions: await readInteractions(path) });
+  }
+
+  /**
+   * Interactions recorded so far (or loaded for replay). Interactions read from `path` appear
+   * once the first request has been replayed.
+   */
+  get interactions(): readonly CassetteInteraction[] {
+    return this.recorded;
+  }
+
+  /** Serializable form of the cassette. */
+  toJSON(): CassetteFile {
+    return { version: 1, interactions: [...this.recorded] };
+  }
+
+  /** Writes the cassette to `path` as pretty-printed JSON. */
+  async save(path: string): Promise<void> {
+    await writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`, 'utf8');
+  }
+
+  /** Fetch implementation to pass as `requestOptions.fetch`. */
+  readonly fetch: FetchFunction = async (url, init) => {
+    if (this.mode === 'record') return await this.record(url, init);
+    if (this.path !== undefined) await (this.loading ??= this.loadPath(this.path));
+    return this.replay(url, init);
+  };
+
+  private async loadPath(path: string): Promise<void> {
+    this.recorded.push(...(await readInteractions(path)));
+  }
+
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    const fetchFn = this.transport ?? globalThis.fetch;
+    const response = await fetchFn(url, init);
+    const interaction: CassetteInteraction = {
+      request: {
+        method: methodOf(init),
+        url,
+        headers: recordableHeaders(new Headers(init.headers)),
+      },
+      response: {
+        status: response.status,
+        headers: bodyHeaders(response.headers),
+        body: await response.text(),
+      },
+    };
+    this.recorded.push(interaction);
+    if (this.path !== undefined) await this.persist(this.path);
+    return toResponse(interaction);
+  }
+
+  /** Writes the cassette to `path` after any write already in progress. */
+  private persist(path: string): Promise<void> {
+    const write = this.writing.then(() => this.save(path));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private replay(url: string, init: RequestInit): Response {
+    init.signal?.throwIfAborted();
+    const key = this.keyOf(methodOf(init), url, new Headers(init.headers));
+    const matches = this.recorded.filter(
+      ({ request }) => this.keyOf(request.method, request.url, new Headers(request.headers)) === key
+    );
+    if (matches.length === 0) {
+      throw new CassetteMismatchError(
+        `No recorded interaction for ${key.replaceAll('\n', ' ')}`,
+        url
+      );
+    }
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return toResponse(matches[Math.min(index, matches.length - 1)]!);
+  }
+
+  /** Match key: method, URL, and the values of `matchHeaders` that are present. */
+  private keyOf(method: string, url: string, headers: Headers): string {
+    const matched = this.matchHeaders
+      .filter((name) => headers.has(name))
+      .map((name) => `${name}: ${headers.get(name)}`);
+    return [`${method} ${url}`, ...matched].join('\n');
+  }
+}
+
+function methodOf(init: RequestInit): string {
+  return (init.method ?? 'GET').toUpperCase();
+}
+
+/** Request headers as a plain object, with credential values redacted. */
+function recordableHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = REDACTED_HEADERS.has(name) ? '[REDACTED]' : value;
+  });
+  return result;
+}
+
+/** Response headers as a plain object, without the transfer headers. */
+function bodyHeaders(headers: Headers | Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    if (!TRANSFER_HEADERS.has(name)) result[name] = value;
+  });
+  return result;
+}
+
+/**
+ * Reads the interactions of a cassette file written by {@link Cassette.save}.
+ * @throws {ValidationError} with field "path" if the file is not a cassette
+ */
+async function readInteractions(path: string): Promise<CassetteInteraction[]> {
+  const file = JSON.parse(await readFile(path, 'utf8')) as Partial<CassetteFile> | null;
+  if (file?.version !== 1 || !Array.isArray(file.interactions)) {
+    throw new ValidationError(`Not a cassette file: ${path}`, 'path');
+  }
+  return file.interactions;
+}
+
+function toResponse({ response }: CassetteInteraction): Response {
+  const body = NULL_BODY_STATUSES.has(response.status) ? null : response.body;
+  return new Response(body, { status: response.status, headers: bodyHeaders(response.headers) });
+}
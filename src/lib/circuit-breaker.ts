@@ -0,0 +1,214 @@
+/**
+ * Circuit breaker used by `doRequest`.
+ *
+ * Each circuit (one per endpoint, or per host) counts consecutive failed attempts. Once
+ * `failureThreshold` is reached it opens and requests fail fast with {@link CircuitOpenError}
+ * instead of reaching the struggling service; after `cooldownMs` one trial request is let
+ * through (half-open) and its outcome closes or reopens the circuit. Circuits are independent,
+ * so an outage of apps.apple.com pages does not stop lookups.
+ */
+import type {
+  CircuitBreakerOptions,
+  CircuitPermit,
+  CircuitState,
+  CircuitStateChange,
+  RequestCircuitBreaker,
+} from '../types/circuit-breaker.js';
+import { endpointForUrl } from './endpoints.js';
+import { CircuitOpenError, HttpError, TimeoutError, ValidationError } from './errors.js';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30_000;
+const DEFAULT_SUCCESS_THRESHOLD = 1;
+
+/** Per-circuit state. */
+interface Circuit {
+  state: CircuitState;
+  /** Consecutive failures while closed */
+  failures: number;
+  /** Successful trials while half-open */
+  successes: number;
+  openedAt: number;
+  /** A half-open trial request is in flight */
+  trialInFlight: boolean;
+}
+
+/**
+ * Default failure classification: 5xx responses, timeouts, and network errors (`TypeError` from fetch).
+ * @internal
+ */
+export function isCircuitFailure(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof HttpError) return error.status >= 500;
+  return error instanceof TypeError || (error instanceof Error && error.name === 'TimeoutError');
+}
+
+/**
+ * Closed/open/half-open circuit breaker with one circuit per endpoint (or host). Create one and
+ * share it across calls (usually via `createClient({ requestOptions: { circuitBreaker } })`);
+ * every attempt through `doRequest`, including retries, is admitted by the URL's circuit. Cache
+ * hits bypass it.
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker({
+ *   failureThreshold: 3,
+ *   cooldownMs: 60_000,
+ *   onStateChange: (e) => console.warn(`circuit ${e.circuit}: ${e.from} -> ${e.to}`),
+ * });
+ * const store = createClient({ requestOptions: { circuitBreaker, retries: 2 } });
+ * ```
+ */
+export class CircuitBreaker implements RequestCircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly successThreshold: number;
+  private readonly scope: 'endpoint' | 'host';
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly onStateChange: ((event: CircuitStateChange) => void) | undefined;
+  private readonly circuits = new Map<string, Circuit>();
+
+  /**
+   * @throws {ValidationError} if `failureThreshold` or `successThreshold` is not a positive integer,
+   *   `cooldownMs` is negative, or `scope` is not `'endpoint'` or `'host'`
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    const {
+      failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+      cooldownMs = DEFAULT_COOLDOWN_MS,
+      successThreshold = DEFAULT_SUCCESS_THRESHOLD,
+      scope = 'endpoint',
+      isFailure = isCircuitFailure,
+      onStateChange,
+    } = options;
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+      throw new ValidationError('failureThreshold must be a positive integer', 'failureThreshold');
+    }
+    if (!Number.isInteger(successThreshold) || successThreshold < 1) {
+      throw new ValidationError('successThreshold must be a positive integer', 'successThreshold');
+    }
+    if (!Number.isFinite(cooldownMs) || cooldownMs < 0) {
+      throw new ValidationError('cooldownMs must be a non-negative number', 'cooldownMs');
+    }
+    if (scope !== 'endpoint' && scope !== 'host') {
+      throw new ValidationError(
+        `scope must be "endpoint" or "host", got ${String(scope)}`,
+        'scope'
+      );
+    }
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.successThreshold = successThreshold;
+    this.scope = scope;
+    this.isFailure = isFailure;
+    this.onStateChange = onStateChange;
+  }
+
+  /** Circuit name for `url`: its endpoint (or host when it matches none), or its host with `scope: 'host'`. */
+  circuitFor(url: string): string {
+    const host = new URL(url).hostname.toLowerCase();
+    return this.scope === 'host' ? host : (endpointForUrl(url) ?? host);
+  }
+
+  /** Current state of a circuit (`closed` for circuits that have seen no requests). */
+  state(circuit: string): CircuitState {
+    const entry = this.circuits.get(circuit);
+    if (entry?.state === 'open' && Date.now() - entry.openedAt >= this.cooldownMs) {
+      return 'half-open';
+    }
+    return entry?.state ?? 'closed';
+  }
+
+  /** Closes one circuit, or every circuit when `circuit` is omitted, without emitting events. */
+  reset(circuit?: string): void {
+    if (circuit === undefined) this.circuits.clear();
+    else this.circuits.delete(circuit);
+  }
+
+  /**
+   * Admits a request attempt to `url`, or throws when its circuit is open (or half-open with its
+   * trial request already in flight). The returned permit must be settled once the attempt ends.
+   * @throws {CircuitOpenError} when the request may not be sent
+   */
+  enter(url: string): CircuitPermit {
+    const name = this.circuitFor(url);
+    const circuit = this.circuitNamed(name);
+    if (circuit.state === 'open') {
+      const remainingMs = circuit.openedAt + this.cooldownMs - Date.now();
+      if (remainingMs > 0) {
+        throw new CircuitOpenError(
+          `Circuit ${name} is open; request to ${url} not sent`,
+          url,
+          name,
+          remainingMs
+        );
+      }
+      this.transition(name, circuit, 'half-open');
+    }
+    const trial = circuit.state === 'half-open';
+    if (trial) {
+      if (circuit.trialInFlight) {
+        throw new CircuitOpenError(
+          `Circuit ${name} is half-open with a trial request in flight; request to ${url} not sent`,
+          url,
+          name
+        );
+      }
+      circuit.trialInFlight = true;
+    }
+
+    let settled = false;
+    const settle = (record: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (trial) circuit.trialInFlight = false;
+      record();
+    };
+    return {
+      done: (error) =>
+        settle(() =>
+          error !== undefined && this.isFailure(error)
+            ? this.recordFailure(name, circuit, trial)
+            : this.recordSuccess(name, circuit, trial)
+        ),
+      abandon: () => settle(() => {}),
+    };
+  }
+
+  private circuitNamed(name: string): Circuit {
+    let circuit = this.circuits.get(name);
+    if (circuit === undefined) {
+      circuit = { state: 'closed', failures: 0, successes: 0, openedAt: 0, trialInFlight: false };
+      this.circuits.set(name, circuit);
+    }
+    return circuit;
+  }
+
+  private recordSuccess(name: string, circuit: Circuit, trial: boolean): void {
+    if (trial && circuit.state === 'half-open') {
+      circuit.successes++;
+      if (circuit.successes >= this.successThreshold) this.transition(name, circuit, 'closed');
+    } else if (circuit.state === 'closed') {
+      circuit.failures = 0;
+    }
+  }
+
+  private recordFailure(name: string, circuit: Circuit, trial: boolean): void {
+    if (trial && circuit.state === 'half-open') {
+      this.transition(name, circuit, 'open');
+    } else if (circuit.state === 'closed') {
+      circuit.failures++;
+      if (circuit.failures >= this.failureThreshold) this.transition(name, circuit, 'open');
+    }
+  }
+
+  private transition(name: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    const { failures } = circuit;
+    circuit.state = to;
+    circuit.successes = 0;
+    if (to === 'open') circuit.openedAt = Date.now();
+    if (to === 'closed') circuit.failures = 0;
+    this.onStateChange?.({ circuit: name, from, to, failures });
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Client factory with bound defaults.
+ *
+ * `createClient(config)` returns an object exposing every API method with the
+ * configured `country`, `lang`, and `requestOptions` applied to each call.
+ * Per-call options still win: a `country` passed to a method overrides the
+ * client's, and per-call `requestOptions` are merged over the client's
+ * (headers are merged key by key).
+ */
+import type {
+  BaseOptions,
+  ListOptions,
+  RequestOptions,
+  SearchOptions,
+  SimilarOptions,
+} from '../types/options.js';
+import { app, scrapeScreenshots } from './app.js';
+import { appAcrossCountries } from './app-across-countries.js';
+import { appPageDetails } from './app-page-details.js';
+import { apps } from './apps.js';
+import { availability } from './availability.js';
+import { resolveAppId } from './common.js';
+import { developer } from './developer.js';
+import { list } from './list.js';
+import { privacy } from './privacy.js';
+import { ratings } from './ratings.js';
+import { reviews } from './reviews.js';
+import { search } from './search.js';
+import { similar } from './similar.js';
+import { refreshStorefronts, storefronts } from './storefronts.js';
+import { suggest } from './suggest.js';
+import { validateCountry } from './validate.js';
+import { versionHistory } from './version-history.js';
+
+/**
+ * Shared defaults for a {@link Client}. Every field is optional; omitted fields fall back
+ * to each method's own defaults (e.g. `country` → {@link DEFAULT_COUNTRY}).
+ */
+export type ClientConfig = BaseOptions;
+
+/**
+ * API methods pre-bound to a {@link ClientConfig}. Signatures (including overloads such as
+ * `search({ idsOnly: true })`) match the standalone exports.
+ */
+export interface Client {
+  /** The defaults this client was created with. */
+  readonly config: Readonly<ClientConfig>;
+  app: typeof app;
+  apps: typeof apps;
+  appAcrossCountries: typeof appAcrossCountries;
+  availability: typeof availability;
+  resolveAppId: typeof resolveAppId;
+  list: typeof list;
+  search: typeof search;
+  developer: typeof developer;
+  reviews: typeof reviews;
+  ratings: typeof ratings;
+  similar: typeof similar;
+  suggest: typeof suggest;
+  storefronts: typeof storefronts;
+  refreshStorefronts: typeof refreshStorefronts;
+  privacy: typeof privacy;
+  versionHistory: typeof versionHistory;
+  appPageDetails: typeof appPageDetails;
+  scrapeScreenshots: typeof scrapeScreenshots;
+}
+
+/**
+ * Merges per-call request options over client defaults. Headers and endpoint overrides are merged
+ * key by key so a per-call `User-Agent` does not drop client-level headers.
+ * Returns undefined when neither side is set, so methods see the same input as a direct call.
+ */
+function mergeRequestOptions(
+  defaults: RequestOptions | undefined,
+  overrides: RequestOptions | undefined
+): RequestOptions | undefined {
+  if (defaults == null) return overrides;
+  if (overrides == null) return defaults;
+  const merged: RequestOptions = { ...defaults, ...overrides };
+  if (defaults.headers != null || overrides.headers != null) {
+    merged.headers = { ...(defaults.headers ?? {}), ...(overrides.headers ?? {}) };
+  }
+  if (defaults.endpoints != null || overrides.endpoints != null) {
+    merged.endpoints = { ...(defaults.endpoints ?? {}), ...(overrides.endpoints ?? {}) };
+  }
+  return merged;
+}
+
+/**
+ * Creates a client whose methods share `country`, `lang`, and `requestOptions`.
+ *
+ * `lang` is only applied to methods that accept it (`app`, `list`, `search`, `developer`,
+ * `similar`, `resolveAppId`, `appAcrossCountries`); `suggest` only receives `requestOptions`, as its
+ * endpoint is global. `appAcrossCountries` and `availability` take their storefronts from `countries`,
+ * not the client's `country`.
+ *
+ * @param config - Shared defaults (country, lang, requestOptions)
+ * @returns Object exposing every API method bound to the defaults
+ * @throws {ValidationError} if `config.country` is not a supported market
+ *
+ * @example
+ * ```typescript
+ * const store = createClient({
+ *   country: 'gb',
+ *   lang: 'en-gb',
+ *   requestOptions: { timeoutMs: 10_000, retries: 2 },
+ * });
+ *
+ * const minecraft = await store.app({ id: 479516143 });
+ * // Per-call options override the client defaults
+ * const german = await store.reviews({ id: 479516143, country: 'de' });
+ * ```
+ */
+export function createClient(config: ClientConfig = {}): Client {
+  if (config.country != null) validateCountry(config.country);
+
+  const withRequestOptions = <T extends Pick<BaseOptions, 'requestOptions'>>(options: T): T => ({
+    ...options,
+    requestOptions: mergeRequestOptions(config.requestOptions, options.requestOptions),
+  });
+  const withCountry = <T extends Omit<BaseOptions, 'lang'>>(options: T): T => ({
+    ...withRequestOptions(options),
+    country: options.country ?? config.country,
+  });
+  const withAll = <T extends BaseOptions>(options: T): T => ({
+    ...withCountry(options),
+    lang: options.lang ?? config.lang,
+  });
+
+  return {
+    config: Object.freeze({ ...config }),
+    app: (options) => app(withAll(options)),
+    apps: (options) => apps(withAll(options)),
+    appAcrossCountries: (options) =>
+      appAcrossCountries({ ...withRequestOptions(options), lang: options.lang ?? config.lang }),
+    availability: (options) => availability(withRequestOptions(options)),
+    resolveAppId: (options) => resolveAppId(withAll(options)),
+    list: ((options: ListOptions = {}) => list(withAll(options))) as typeof list,
+    search: ((options: SearchOptions) => search(withAll(options))) as typeof search,
+    developer: (options) => developer(withAll(options)),
+    reviews: (options) => reviews(withCountry(options)),
+    ratings: (options) => ratings(withCountry(options)),
+    similar: ((options: SimilarOptions) => similar(withAll(options))) as typeof similar,
+    suggest: (options) => suggest(withRequestOptions(options)),
+    storefronts,
+    refreshStorefronts: (options = {}) => refreshStorefronts(withRequestOptions(options)),
+    privacy: (options) => privacy(withCountry(options)),
+    versionHistory: (options) => versionHistory(withCountry(options)),
+    appPageDetails: (options) => appPageDetails(withCountry(options)),
+    scrapeScreenshots: (appId, country, requestOptions) =>
+      scrapeScreenshots(appId, country, mergeRequestOptions(config.requestOptions, requestOptions)),
+  };
+}
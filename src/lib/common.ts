@@ -1,9 +1,40 @@
 import type { App } from '../types/app.js';
 import { BODY_PREVIEW_MAX_LEN, DEFAULT_COUNTRY, markets } from '../types/constants.js';
 import { iTunesLookupResponseSchema, type ITunesAppResponse } from './schemas.js';
+import type { z } from 'zod';
 import type { RequestOptions, ResolveAppIdOptions } from '../types/options.js';
-import { HttpError, ValidationError } from './errors.js';
-import { validateCountry } from './validate.js';
+import type { AfterResponseContext, BeforeRequestContext } from '../types/hooks.js';
+import type { RequestMetricsEvent } from '../types/metrics.js';
+import type { CircuitPermit } from '../types/circuit-breaker.js';
+import {
+  CacheMissError,
+  CassetteMismatchError,
+  CircuitOpenError,
+  HttpError,
+  NotFoundError,
+  RateLimitError,
+  ResponseParseError,
+  ResponseTooLargeError,
+  SchemaDriftError,
+  TimeoutError,
+  ValidationError,
+} from './errors.js';
+import { maxBodyBytesFor, readBody } from './body.js';
+import { withCache, type LoadedResponse } from './cache.js';
+import { dedupe, dedupeKey } from './dedupe.js';
+import { endpointForUrl, endpointUrl } from './endpoints.js';
+import { getLogger } from './logger.js';
+import { currentTrace, traced } from './metrics.js';
+import {
+  isRetryable,
+  nextRetryDelayMs,
+  parseRetryAfterMs,
+  resolveRetryPolicy,
+  sleep,
+  withRetryInfo,
+  type ResolvedRetryPolicy,
+} from './retry.js';
+import { isLangSupported, validateCountry } from './validate.js';
 
 const DEFAULT_TIMEOUT_MS = 15_000;
 const DEFAULT_RETRIES = 0;
@@ -26,11 +57,16 @@ export function isAppRecord(record: { kind?: string; wrapperType?: string }): bo
 /**
  * Builds the App Store app page URL for a given country and numeric app (track) id.
  * Only numeric IDs produce valid URLs; bundle IDs must be resolved to a track id first.
- * Used by app (screenshots), similar, privacy, and versionHistory.
+ * Used by app (screenshots), similar, privacy, and versionHistory. Honors an `appPage` override in
+ * `requestOptions.endpoints`.
  * @internal
  */
-export function appPageUrl(country: string, appId: number | string): string {
-  return `https://apps.apple.com/${country}/app/id${appId}`;
+export function appPageUrl(
+  country: string,
+  appId: number | string,
+  requestOptions?: RequestOptions
+): string {
+  return endpointUrl('appPage', `/${country}/app/id${appId}`, requestOptions);
 }
 
 /**
@@ -42,72 +78,71 @@ export async function fetchAppPage(
   requestOptions?: RequestOptions
 ): Promise<string | null> {
   try {
-    return await doRequest(url, requestOptions);
+    return await traced('fetchAppPage', () => doRequest(url, requestOptions));
   } catch (error) {
-    if (error instanceof HttpError && error.status === 404) return null;
-    throw error;
+    if (!(error instanceof HttpError && error.status === 404)) throw error;
+    getLogger(requestOptions).debug('App page not found; returning empty result', { url });
+    return null;
   }
 }
 
-/** Returns true if the failure is transient and worth retrying (GET is idempotent). */
-function isRetryable(status?: number, err?: unknown): boolean {
-  if (status === 429 || status === 503) return true;
-  if (err instanceof TypeError) return true; // network / DNS / CORS etc.
-  return false;
-}
-
-/**
- * Type guard: true when value is an object with a numeric `status` property (e.g. HttpError-like).
- * Used in doRequest catch block to read status for retry logic without type assertions.
- */
-// Stryker disable all: type guard correctness enforced by TypeScript types, not runtime assertions
-function hasStatus(x: unknown): x is { status: number } {
-  return (
-    typeof x === 'object' &&
-    x !== null &&
-    'status' in x &&
-    typeof (x as { status?: number }).status === 'number'
-  );
-}
-// Stryker restore all
-
-/**
- * Returns a jittered exponential backoff delay in milliseconds.
- * Formula: `base * 2^attempt * random(0.5 … 1.0)` — "equal jitter" strategy.
- * @internal
- */
-function backoffMs(attempt: number, baseMs = 1000): number {
-  return baseMs * 2 ** attempt * (0.5 + Math.random() * 0.5);
-}
+// Stryker disable StringLiteral: default header values are not behavioral contracts
+const DEFAULT_HEADERS: Readonly<Record<string, string>> = {
+  'User-Agent':
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  Accept:
+    'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+// Stryker restore StringLiteral
 
 /**
- * Makes an HTTP GET request with optional timeout and retries.
+ * Makes an HTTP GET request with optional timeout, retries, and response caching.
  * On non-OK response, throws an {@link HttpError} (extends Error) with `status` and optional `url`
  * so consumers can match on `error.status === 404` instead of parsing the message.
  *
  * - Uses `AbortSignal.timeout(timeoutMs)` (default 15s). Pass `requestOptions.timeoutMs` to override.
  *   Must be a positive finite number; invalid values throw a clear error before any request.
- * - On 429, 503, network errors, or timeout (AbortError), retries up to `requestOptions.retries` times
- *   (default 0 — opt-in). Set `retries` to a positive value (e.g. 2) to enable; exponential backoff 1s, 2s, 4s.
+ * - On 429, 503, network errors, or timeout, retries up to `requestOptions.retries` times
+ *   (default 0 — opt-in). Set `retries` to a positive value (e.g. 2) to enable. Default backoff (see
+ *   `resolveRetryPolicy`) doubles from 1s (1s, 2s, 4s, ...) capped at 30s, with equal jitter: each delay is
+ *   randomized between half and all of that value.
  *   Invalid values (negative, NaN, non-integer) are clamped to 0 so at least one attempt is always made.
  *   With retries enabled, total wait on repeated timeouts can be up to `timeoutMs * (1 + retries)` plus backoff.
- * - Each request is independent: other concurrent calls (e.g. other crawls) are not blocked; only the call
- *   that made the request blocks until it completes or times out.
+ * - `requestOptions.retryPolicy` customizes retryable statuses, backoff base/cap, jitter, a total elapsed-time
+ *   budget, and a `shouldRetry(ctx)` predicate. A `Retry-After` header (seconds or HTTP date) raises the delay
+ *   before the next attempt; if it exceeds `maxDelayMs` the request is not retried. The thrown error carries
+ *   `attempts` and `totalWaitMs`.
+ * - `requestOptions.signal` cancels the request: it is combined with the timeout signal, aborts a pending
+ *   backoff sleep or rate-limiter wait, and is never retried. The thrown error is `signal.reason`
+ *   (an `AbortError` DOMException unless a custom reason was passed to `abort()`).
+ * - Without a rate limiter, each request is independent: other concurrent calls (e.g. other crawls) are
+ *   not blocked; only the call that made the request blocks until it completes or times out.
+ * - Uses `requestOptions.fetch` when provided (custom transport), otherwise the global `fetch`.
+ * - When `requestOptions.rateLimiter` is set, each attempt waits for a slot for the URL's host and
+ *   releases it once the body is read or the attempt fails (before any backoff).
+ * - When `requestOptions.circuitBreaker` is set, each attempt must be admitted by the circuit for the URL's
+ *   endpoint; an open circuit rejects with {@link CircuitOpenError} before any request (never retried).
+ * - `requestOptions.hooks` run around every attempt: `beforeRequest` (may change URL/headers), `afterResponse`
+ *   (status, headers, body), `onRetry` (before each backoff), and `onError` (once, on final failure).
+ * - Each retry is logged at `info` level to the configured logger (`requestOptions.logger` or `setLogger()`).
+ * - When `requestOptions.metrics` is set, it receives one event per call once the call settles (duration,
+ *   bytes, status, attempts, cache hit, and the call path from the public method).
+ * - When `requestOptions.cache` is set, a fresh cached body is returned without a request; successful
+ *   bodies are stored with their `ETag` / `Last-Modified` validators. A stale entry with validators is
+ *   revalidated with `If-None-Match` / `If-Modified-Since`; a 304 renews it and returns the cached body.
+ *   Failed requests are never cached.
+ * - Identical concurrent requests (same `fetch`, URL, headers, `maxBodyBytes`, `timeoutMs`, `retries`,
+ *   `retryPolicy`, `rateLimiter`, and `circuitBreaker`; objects by identity) share one round-trip and body;
+ *   each caller still parses the body itself. Calls with `hooks` are never shared, since `beforeRequest` may
+ *   change the request. Disable with `dedupe: false`.
+ * - Response bodies are streamed and limited to `requestOptions.maxBodyBytes` (per-endpoint defaults in
+ *   {@link DEFAULT_MAX_BODY_BYTES}); a larger body rejects with {@link ResponseTooLargeError} (never retried).
  * - Default headers (User-Agent, Accept, Accept-Language) are merged with `requestOptions.headers`; custom
  *   headers override defaults. To avoid bot detection when the default User-Agent ages, pass
  *   `headers: { 'User-Agent': '...' }` in requestOptions.
  */
 export async function doRequest(url: string, options?: RequestOptions): Promise<string> {
-  // Stryker disable StringLiteral: default header values are not behavioral contracts
-  const defaultHeaders: Record<string, string> = {
-    'User-Agent':
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    Accept:
-      'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-    'Accept-Language': 'en-US,en;q=0.9',
-  };
-  // Stryker restore StringLiteral
-
   const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   if (typeof timeoutMs !== 'number' || !Number.isFinite(timeoutMs) || timeoutMs <= 0) {
     throw new ValidationError(
@@ -115,64 +150,338 @@ export async function doRequest(url: string, options?: RequestOptions): Promise<
       'timeoutMs'
     );
   }
-  const rawRetries = options?.retries ?? DEFAULT_RETRIES;
-  const maxRetries = Math.max(0, Math.floor(Number(rawRetries)) || 0);
-  let lastError: Error | undefined;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  const maxBodyBytes = maxBodyBytesFor(options?.maxBodyBytes, endpointForUrl(url));
+  const policy = resolveRetryPolicy(options?.retryPolicy);
+  options?.signal?.throwIfAborted();
+  const headers = { ...DEFAULT_HEADERS, ...(options?.headers ?? {}) };
+
+  const progress: RequestProgress = { attempts: 0, totalWaitMs: 0, sent: false, deduped: false };
+  const send = (conditional?: Record<string, string>) =>
+    sendDeduped(
+      url,
+      conditional ? { ...headers, ...conditional } : headers,
+      timeoutMs,
+      maxBodyBytes,
+      policy,
+      options,
+      progress,
+      conditional !== undefined
+    );
+  const cache = options?.cache;
+  const load = async () =>
+    cache ? withCache(cache, url, headers, endpointForUrl(url), send) : (await send()).body;
+  const metrics = options?.metrics;
+  if (!metrics) return load();
+
+  const trace = currentTrace();
+  const startedAt = Date.now();
+  const start = performance.now();
+  let body: string | undefined;
+  let error: unknown;
+  try {
+    body = await load();
+    return body;
+  } catch (err) {
+    error = err;
+    throw err;
+  } finally {
+    const event: RequestMetricsEvent = {
+      schemaVersion: 1,
+      url,
+      endpoint: endpointForUrl(url),
+      method: trace[0],
+      trace,
+      startedAt,
+      durationMs: performance.now() - start,
+      ok: body !== undefined,
+      status: progress.status,
+      error: body === undefined ? errorName(error) : undefined,
+      bytes: body === undefined ? 0 : Buffer.byteLength(body),
+      attempts: progress.attempts,
+      retries: Math.max(0, progress.attempts - 1),
+      totalWaitMs: progress.totalWaitMs,
+      cacheHit: Boolean(cache) && body !== undefined && !progress.sent,
+      deduped: progress.deduped,
+    };
     try {
-      const signal = AbortSignal.timeout(timeoutMs);
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          ...defaultHeaders,
-          ...(options?.headers ?? {}),
-        },
-        signal,
+      metrics.record(event);
+    } catch (err) {
+      getLogger(options).warn('Metrics sink failed; event dropped', {
+        url,
+        error: err instanceof Error ? err.message : String(err),
       });
+    }
+  }
+}
 
-      if (!response.ok) {
-        if (attempt < maxRetries && isRetryable(response.status)) {
-          // Consume body so the connection can be reused (fetch spec / connection pooling).
-          await response.text().catch(() => '');
-          const delayMs = backoffMs(attempt);
-          await new Promise((r) => setTimeout(r, delayMs));
-          continue;
-        }
-        throw new HttpError(
-          `Request to ${url} failed with status ${response.status}`,
-          response.status,
-          url
-        );
-      }
+/** What one {@link doRequest} call did, filled in as it runs; reported in its metrics event. */
+interface RequestProgress {
+  /** Attempts sent by this call */
+  attempts: number;
+  totalWaitMs: number;
+  /** Status of the final attempt's response */
+  status?: number;
+  /** A request was started or joined (not served from the cache) */
+  sent: boolean;
+  /** Joined an identical request already in flight */
+  deduped: boolean;
+}
+
+function errorName(error: unknown): string {
+  return error instanceof Error ? error.name : typeof error;
+}
+
+/**
+ * Runs {@link fetchWithRetries}, joining an identical request (same transport, URL, headers, body size
+ * limit, timeout, retries, retry policy, rate limiter, and circuit breaker) already in flight unless
+ * `options.dedupe` is false or `options.hooks` is set (hooks may change the request, e.g. add
+ * per-caller auth). The shared request is aborted only when every waiting caller has aborted.
+ * With `conditional` (the headers revalidate a cached entry), a 304 response is returned, not thrown.
+ */
+function sendDeduped(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  maxBodyBytes: number,
+  policy: ResolvedRetryPolicy,
+  options: RequestOptions | undefined,
+  progress: RequestProgress,
+  conditional: boolean
+): Promise<LoadedResponse> {
+  progress.sent = true;
+  if (options?.dedupe === false || options?.hooks) {
+    return fetchWithRetries(
+      url,
+      headers,
+      timeoutMs,
+      maxBodyBytes,
+      policy,
+      options,
+      progress,
+      conditional
+    );
+  }
+  const fetchFn = options?.fetch ?? globalThis.fetch;
+  progress.deduped = true;
+  const key = dedupeKey(url, headers, {
+    maxBodyBytes,
+    timeoutMs,
+    retries: options?.retries,
+    retryPolicy: options?.retryPolicy,
+    rateLimiter: options?.rateLimiter,
+    circuitBreaker: options?.circuitBreaker,
+  });
+  return dedupe(fetchFn, key, options?.signal, (signal) => {
+    progress.deduped = false;
+    return fetchWithRetries(
+      url,
+      headers,
+      timeoutMs,
+      maxBodyBytes,
+      policy,
+      { ...options, fetch: fetchFn, signal },
+      progress,
+      conditional
+    );
+  });
+}
 
-      return await response.text();
+/**
+ * Sends the GET request, retrying transient failures per `options.retries` and `retryPolicy`
+ * (see {@link doRequest}). The thrown error carries `attempts` and `totalWaitMs` unless the call
+ * was cancelled, in which case the abort reason is rethrown as-is. Calls the `onError` hook.
+ */
+async function fetchWithRetries(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  maxBodyBytes: number,
+  policy: ResolvedRetryPolicy,
+  options: RequestOptions | undefined,
+  progress: RequestProgress,
+  conditional: boolean
+): Promise<LoadedResponse> {
+  try {
+    return await sendWithRetries(
+      url,
+      headers,
+      timeoutMs,
+      maxBodyBytes,
+      policy,
+      options,
+      progress,
+      conditional
+    );
+  } catch (err) {
+    const error = options?.signal?.aborted
+      ? err
+      : withRetryInfo(err, progress.attempts, progress.totalWaitMs);
+    const { attempts, totalWaitMs } = progress;
+    await options?.hooks?.onError?.({
+      url,
+      endpoint: endpointForUrl(url),
+      error,
+      attempts,
+      totalWaitMs,
+    });
+    throw error;
+  }
+}
+
+/** Attempt loop for {@link fetchWithRetries}; records attempts and wait time in `progress`. */
+async function sendWithRetries(
+  url: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  maxBodyBytes: number,
+  policy: ResolvedRetryPolicy,
+  options: RequestOptions | undefined,
+  progress: RequestProgress,
+  conditional: boolean
+): Promise<LoadedResponse> {
+  const rawRetries = options?.retries ?? DEFAULT_RETRIES;
+  const maxRetries = Math.max(0, Math.floor(Number(rawRetries)) || 0);
+  const fetchFn = options?.fetch ?? globalThis.fetch;
+  const userSignal = options?.signal;
+  const hooks = options?.hooks;
+  const endpoint = endpointForUrl(url);
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    progress.attempts = attempt;
+    progress.status = undefined;
+    const request: BeforeRequestContext = { url, headers: { ...headers }, attempt, endpoint };
+    let response: Response | undefined;
+    let bodyRead = false;
+    let error: unknown;
+    // Hold the limiter slot for the request and body read only, not during backoff. Enter the
+    // circuit only once the slot is ours, so a half-open trial is never stuck in the limiter queue.
+    const release = await options?.rateLimiter?.acquire(url, userSignal);
+    let permit: CircuitPermit | undefined;
+    try {
+      permit = options?.circuitBreaker?.enter(url);
     } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      const status = hasStatus(err) ? err.status : undefined;
-      if (attempt < maxRetries && (isRetryable(status, err) || lastError?.name === 'AbortError')) {
-        const delayMs = backoffMs(attempt);
-        await new Promise((r) => setTimeout(r, delayMs));
-        continue;
+      release?.();
+      throw err;
+    }
+    try {
+      await hooks?.beforeRequest?.(request);
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const signal = userSignal ? AbortSignal.any([userSignal, timeout]) : timeout;
+      response = await fetchFn(request.url, { method: 'GET', headers: request.headers, signal });
+      progress.status = response.status;
+      if (response.ok || (conditional && response.status === 304)) {
+        const body = await readBody(response, maxBodyBytes, request.url);
+        await hooks?.afterResponse?.(responseContext(request, response, body));
+        return loadedResponse(response, body);
+      }
+      if (hooks?.afterResponse) {
+        bodyRead = true;
+        const body = await readBody(response, maxBodyBytes, request.url).catch(() => '');
+        await hooks.afterResponse(responseContext(request, response, body));
       }
-      throw lastError;
+      error = responseError(request.url, response);
+    } catch (err) {
+      error =
+        err instanceof Error && err.name === 'TimeoutError' && !userSignal?.aborted
+          ? new TimeoutError(
+              `Request to ${request.url} timed out after ${timeoutMs}ms`,
+              request.url,
+              timeoutMs,
+              { cause: err }
+            )
+          : err;
+    } finally {
+      release?.();
+      if (userSignal?.aborted) permit?.abandon();
+      else permit?.done(error);
+    }
+    // Cancelled by the caller: never retried; rethrow the abort reason as-is.
+    userSignal?.throwIfAborted();
+
+    const status = response?.ok === false ? response.status : undefined;
+    const retryAfterMs =
+      status !== undefined ? parseRetryAfterMs(response?.headers?.get('retry-after')) : undefined;
+    const ctx = { url, attempt, status, error, retryAfterMs, elapsedMs: Date.now() - startedAt };
+    const delayMs = nextRetryDelayMs(policy, ctx, attempt <= maxRetries);
+    if (delayMs === undefined) throw error;
+    if (response !== undefined && status !== undefined && !bodyRead) {
+      // Consume body so the connection can be reused (fetch spec / connection pooling).
+      await readBody(response, maxBodyBytes, url).catch(() => '');
     }
+    getLogger(options).info(`Retrying request after ${delayMs}ms`, {
+      url,
+      endpoint,
+      attempt,
+      status,
+      delayMs,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await hooks?.onRetry?.({ ...ctx, delayMs, retryable: isRetryable(policy, status, error) });
+    await sleep(delayMs, userSignal);
+    progress.totalWaitMs += delayMs;
   }
+}
 
-  throw lastError ?? new Error('Request failed');
+/**
+ * Builds the error for a non-OK response: {@link NotFoundError} for 404, {@link RateLimitError}
+ * (with `Retry-After`) for 429, otherwise {@link HttpError}.
+ */
+function responseError(url: string, response: Response): HttpError {
+  const { status } = response;
+  const message = `Request to ${url} failed with status ${status}`;
+  if (status === 404) return new NotFoundError(message, url);
+  if (status === 429) {
+    return new RateLimitError(
+      message,
+      url,
+      parseRetryAfterMs(response.headers?.get('retry-after'))
+    );
+  }
+  return new HttpError(message, status, url);
+}
+
+/** Status, body, and cache validators (`ETag`, `Last-Modified`) of a successful or 304 response. */
+function loadedResponse(response: Response, body: string): LoadedResponse {
+  const etag = response.headers?.get('etag');
+  const lastModified = response.headers?.get('last-modified');
+  return {
+    status: response.status,
+    body,
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
+}
+
+/** Builds the `afterResponse` hook context for a response. */
+function responseContext(
+  request: BeforeRequestContext,
+  response: Response,
+  body: string
+): AfterResponseContext {
+  const { url, attempt, endpoint } = request;
+  return {
+    url,
+    attempt,
+    endpoint,
+    status: response.status,
+    ok: response.ok,
+    headers: response.headers,
+    body,
+  };
 }
 
 /**
  * Parses a string as JSON and returns the result as unknown.
- * On parse failure, throws an {@link HttpError} including the response status and a
- * short body preview for debugging. This ensures consumers catching `HttpError` will
- * handle malformed responses the same way they handle HTTP failures.
+ * On parse failure, throws a {@link ResponseParseError} (extends {@link HttpError}) including the
+ * response status and a short body preview for debugging. This ensures consumers catching `HttpError`
+ * will handle malformed responses the same way they handle HTTP failures.
  *
  * @param body - Raw response body string
  * @param context - Optional context (e.g. response status) for error messages; status
  *   defaults to 200 since callers invoke this after a successful `doRequest`
  * @returns Parsed value as unknown
- * @throws HttpError with message like "Invalid JSON response (status 200): Unexpected token... Body preview: ..."
+ * @throws ResponseParseError with message like "Invalid JSON response (status 200): Unexpected token... Body preview: ..."
  * @internal
  */
 export function parseJson(body: string, context?: { status?: number }): unknown {
@@ -186,9 +495,10 @@ export function parseJson(body: string, context?: { status?: number }): unknown
       safeBody.length > BODY_PREVIEW_MAX_LEN
         ? `${safeBody.slice(0, BODY_PREVIEW_MAX_LEN)}...`
         : safeBody;
-    throw new HttpError(
+    throw new ResponseParseError(
       `Invalid JSON response (status ${status}): ${msg}. Body preview: ${bodyPreview}`,
-      status
+      status,
+      bodyPreview
     );
   }
 }
@@ -200,18 +510,21 @@ export function parseJson(body: string, context?: { status?: number }): unknown
 type ParseableSchema<T> = {
   safeParse: (
     u: unknown
-  ) => { success: true; data: T } | { success: false; error: { message: string } };
+  ) =>
+    | { success: true; data: T }
+    | { success: false; error: { message: string; issues: z.core.$ZodIssue[] } };
 };
 
 /**
- * Parses JSON, validates with a Zod schema, and throws ValidationError on failure.
+ * Parses JSON, validates with a Zod schema, and throws SchemaDriftError on failure.
  * Centralizes the parseJson + safeParse + ValidationError pattern used by lookup, reviews, list, and search.
  *
  * @param body - Raw response body string
  * @param schema - Zod schema (or any object with safeParse) to validate parsed data
  * @param context - Context string for error messages (default: 'API response')
  * @returns Validated data of type T
- * @throws {ValidationError} when schema validation fails (field: 'response')
+ * @throws {ResponseParseError} when the body is not valid JSON
+ * @throws {SchemaDriftError} (extends ValidationError, field: 'response') when schema validation fails
  * @internal
  */
 export function parseAndValidate<T>(
@@ -222,7 +535,10 @@ export function parseAndValidate<T>(
   const parsed = parseJson(body);
   const result = schema.safeParse(parsed);
   if (!result.success) {
-    throw new ValidationError(`${context} validation failed: ${result.error.message}`, 'response');
+    throw new SchemaDriftError(
+      `${context} validation failed: ${result.error.message}`,
+      result.error.issues
+    );
   }
   return result.data;
 }
@@ -246,9 +562,10 @@ export function safeParseInt(value: unknown, fallback = 0): number {
 
 /**
  * Cleans and transforms an iTunes API response to our App format.
+ * With `includeRaw`, the validated record is attached as `raw`.
  * @internal
  */
-export function cleanApp(app: ITunesAppResponse): App {
+export function cleanApp(app: ITunesAppResponse, includeRaw = false): App {
   return {
     id: app.trackId ?? 0,
     appId: app.bundleId ?? '',
@@ -283,6 +600,18 @@ export function cleanApp(app: ITunesAppResponse): App {
     ipadScreenshots: app.ipadScreenshotUrls ?? [],
     appletvScreenshots: app.appletvScreenshotUrls ?? [],
     supportedDevices: app.supportedDevices ?? [],
+    kind: app.kind,
+    formattedPrice: app.formattedPrice,
+    sellerName: app.sellerName,
+    trackContentRating: app.trackContentRating,
+    advisories: app.advisories,
+    features: app.features,
+    isGameCenterEnabled: app.isGameCenterEnabled,
+    isVppDeviceBasedLicensingEnabled: app.isVppDeviceBasedLicensingEnabled,
+    artworkUrl60: app.artworkUrl60,
+    artworkUrl100: app.artworkUrl100,
+    trackCensoredName: app.trackCensoredName,
+    ...(includeRaw && { raw: app }),
   };
 }
 
@@ -302,7 +631,8 @@ export async function lookup(
   idField: 'id' | 'bundleId' | 'artistId',
   country = DEFAULT_COUNTRY,
   lang?: string,
-  requestOptions?: RequestOptions
+  requestOptions?: RequestOptions,
+  includeRaw = false
 ): Promise<App[]> {
   const idsArray = ensureArray(ids);
   const idsString = idsArray.map(String).join(',');
@@ -321,13 +651,75 @@ export async function lookup(
     params.set('lang', lang);
   }
 
-  const url = `https://itunes.apple.com/lookup?${params.toString()}`;
-  const body = await doRequest(url, requestOptions);
+  const url = endpointUrl('lookup', `/lookup?${params.toString()}`, requestOptions);
+  const body = await traced('lookup', () => doRequest(url, requestOptions));
 
   const response = parseAndValidate(body, iTunesLookupResponseSchema, 'iTunes API response');
 
   // Filter to app records only (excludes artist entries, audiobooks, etc.)
-  return response.results.filter((app) => isAppRecord(app)).map((app) => cleanApp(app));
+  return response.results.filter((app) => isAppRecord(app)).map((app) => cleanApp(app, includeRaw));
+}
+
+/** Default number of IDs per lookup request when chunking (see {@link lookupInChunks}). */
+export const DEFAULT_LOOKUP_CHUNK_SIZE = 50;
+
+/** Default number of chunked lookup requests in flight at once. */
+export const DEFAULT_LOOKUP_CONCURRENCY = 4;
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, preserving input order.
+ * Rejects with the first error; no new calls start after a failure.
+ * @internal
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]!, index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Looks up many IDs by splitting them into chunks of `chunkSize` and running up to
+ * `concurrency` lookup requests at once. Results are concatenated in chunk order
+ * (within a chunk, in API order). Used by {@link apps} and `list({ fullDetail: true })`.
+ * @internal
+ */
+export async function lookupInChunks(
+  ids: number[] | string[],
+  idField: 'id' | 'bundleId',
+  country: string,
+  lang: string | undefined,
+  requestOptions: RequestOptions | undefined,
+  {
+    chunkSize = DEFAULT_LOOKUP_CHUNK_SIZE,
+    concurrency = DEFAULT_LOOKUP_CONCURRENCY,
+    includeRaw = false,
+  }: { chunkSize?: number; concurrency?: number; includeRaw?: boolean } = {}
+): Promise<App[]> {
+  const chunks: (number[] | string[])[] = [];
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    chunks.push(ids.slice(i, i + chunkSize));
+  }
+  const results = await mapWithConcurrency(chunks, concurrency, (chunk) =>
+    lookup(chunk, idField, country, lang, requestOptions, includeRaw)
+  );
+  return results.flat();
 }
 
 /**
@@ -337,28 +729,53 @@ export async function lookup(
  *
  * @param options - Must include `appId` (bundle ID); optional `country`, `requestOptions`
  * @returns The numeric track ID
- * @throws HttpError (404) if the app is not found
+ * @throws NotFoundError (HttpError with status 404) if the app is not found
  */
 export async function resolveAppId(options: ResolveAppIdOptions): Promise<number> {
+  return traced('resolveAppId', () => resolveTrackId(options));
+}
+
+async function resolveTrackId(options: ResolveAppIdOptions): Promise<number> {
   const { appId, country = DEFAULT_COUNTRY, requestOptions } = options;
   validateCountry(country);
   const apps = await lookup(appId, 'bundleId', country, undefined, requestOptions);
   if (apps.length === 0) {
-    throw new HttpError(`App not found: ${appId}`, 404);
+    throw new NotFoundError(`App not found: ${appId}`);
   }
   return apps[0]!.id;
 }
 
 /**
  * Wraps an error from resolveAppId into a consistent message and rethrows.
- * Preserves HttpError status/url when the original error is HttpError.
+ * Preserves the error class (e.g. NotFoundError, RateLimitError, SchemaDriftError) and HttpError status/url;
+ * an AbortError and errors raised before or instead of a response (CircuitOpenError, CacheMissError,
+ * CassetteMismatchError, ResponseTooLargeError) are rethrown unchanged.
  * @internal
  */
 export function wrapResolveAppIdError(appId: string, err: unknown): never {
+  if (err instanceof Error && err.name === 'AbortError') throw err;
+  if (
+    err instanceof CircuitOpenError ||
+    err instanceof CacheMissError ||
+    err instanceof CassetteMismatchError ||
+    err instanceof ResponseTooLargeError
+  ) {
+    throw err;
+  }
   const message = `Could not resolve app id "${appId}": ${err instanceof Error ? err.message : String(err)}`;
+  // Keep the specific error class so callers can still match on it.
+  if (err instanceof NotFoundError) throw new NotFoundError(message, err.url);
+  if (err instanceof RateLimitError) throw new RateLimitError(message, err.url, err.retryAfterMs);
+  if (err instanceof TimeoutError) {
+    throw new TimeoutError(message, err.url, err.timeoutMs, { cause: err });
+  }
+  if (err instanceof ResponseParseError) {
+    throw new ResponseParseError(message, err.status, err.bodyPreview, err.url);
+  }
   if (err instanceof HttpError) {
     throw new HttpError(message, err.status, err.url);
   }
+  if (err instanceof SchemaDriftError) throw new SchemaDriftError(message, err.issues);
   throw new Error(message, { cause: err });
 }
 
@@ -376,6 +793,28 @@ export function storeId(country: string): number {
   return id;
 }
 
+/**
+ * Checks `lang` against the languages of the `country` storefront. An unsupported `lang` throws
+ * with `requestOptions.strictLang`; otherwise it is reported through the configured logger and the
+ * request still goes out, since iTunes accepts any `lang` but may answer in the storefront's
+ * default language instead.
+ * @throws {ValidationError} with field "lang" when `strictLang` is set and `lang` is unsupported
+ * @internal
+ */
+export function checkLang(
+  lang: string | undefined,
+  country: string,
+  requestOptions?: RequestOptions
+): void {
+  if (!lang || isLangSupported(lang, country)) return;
+  const message = `lang "${lang}" is not a language of the "${country}" storefront`;
+  if (requestOptions?.strictLang) throw new ValidationError(message, 'lang');
+  getLogger(requestOptions).warn(`${message}; results may use its default language`, {
+    lang,
+    country,
+  });
+}
+
 /**
  * Ensures an array from a value that could be undefined, null, a single item, or an array.
  * @internal
@@ -0,0 +1,132 @@
+/**
+ * In-flight request deduplication used by `doRequest`.
+ *
+ * Identical requests (same transport, URL, headers, and request settings: body size limit, timeout,
+ * retries, retry policy, rate limiter, and circuit breaker) started while one is already in flight
+ * join it instead of opening another connection, and all callers receive the same response body.
+ * Entries exist only while the request is in flight; completed responses are kept by the
+ * response cache, if one is configured, not here.
+ */
+import type { FetchFunction } from '../types/options.js';
+
+interface InFlightRequest<T = unknown> {
+  promise: Promise<T>;
+  /** Aborts the shared request and forgets it, so later calls start a new one. */
+  cancel: (reason: unknown) => void;
+  /** Callers still waiting for the result. */
+  waiters: number;
+}
+
+/**
+ * Settings that change how a request is sent, so only calls that agree on all of them share one.
+ * Objects are compared by identity.
+ * @internal
+ */
+export interface DedupeSettings {
+  maxBodyBytes: number;
+  timeoutMs: number;
+  retries: number | undefined;
+  retryPolicy: object | undefined;
+  rateLimiter: object | undefined;
+  circuitBreaker: object | undefined;
+}
+
+/** In-flight requests per transport, so calls with different `fetch` implementations never share. */
+const inFlight = new WeakMap<FetchFunction, Map<string, InFlightRequest>>();
+
+/** Stable numeric identity per settings object, for use in {@link dedupeKey}. */
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+function objectId(value: object | undefined): number {
+  if (value === undefined) return 0;
+  let id = objectIds.get(value);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return id;
+}
+
+/**
+ * Key identifying identical requests: URL, request settings, and all request headers (lower-cased
+ * names, sorted).
+ * @internal
+ */
+export function dedupeKey(
+  url: string,
+  headers: Record<string, string>,
+  settings: DedupeSettings
+): string {
+  const { maxBodyBytes, timeoutMs, retries, retryPolicy, rateLimiter, circuitBreaker } = settings;
+  const normalized = Object.entries(headers)
+    .map(([name, value]) => `${name.toLowerCase()}:${value}`)
+    .sort();
+  const sendSettings = [
+    maxBodyBytes,
+    timeoutMs,
+    retries ?? 0,
+    objectId(retryPolicy),
+    objectId(rateLimiter),
+    objectId(circuitBreaker),
+  ].join(' ');
+  return [url, sendSettings, ...normalized].join('\n');
+}
+
+/**
+ * Runs `send` for `key`, or joins the request already in flight for the same transport and key.
+ *
+ * `send` receives the signal for the shared request: it is aborted (with the last caller's abort
+ * reason) only once every waiting caller has aborted its own `signal`. A caller that aborts
+ * rejects immediately with its `signal.reason`, as does a caller whose `signal` is already
+ * aborted (without starting or joining anything); the others keep waiting.
+ * @internal
+ */
+export function dedupe<T>(
+  fetchFn: FetchFunction,
+  key: string,
+  signal: AbortSignal | undefined,
+  send: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(signal.reason as Error);
+  let requests = inFlight.get(fetchFn);
+  if (requests === undefined) {
+    requests = new Map();
+    inFlight.set(fetchFn, requests);
+  }
+  let entry = requests.get(key) as InFlightRequest<T> | undefined;
+  if (entry === undefined) {
+    const controller = new AbortController();
+    const forget = () => {
+      if (requests.get(key) === created) requests.delete(key);
+    };
+    const created: InFlightRequest<T> = {
+      waiters: 0,
+      promise: send(controller.signal).finally(forget),
+      cancel: (reason) => {
+        forget();
+        controller.abort(reason);
+      },
+    };
+    // Every caller may have aborted before the request settles; nobody observes the rejection then.
+    created.promise.catch(() => {});
+    requests.set(key, created);
+    entry = created;
+  }
+  entry.waiters++;
+  return waitFor(entry, signal);
+}
+
+/** Waits for the shared request, leaving it (and aborting it when last) if `signal` aborts. */
+function waitFor<T>(entry: InFlightRequest<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return entry.promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      entry.waiters--;
+      if (entry.waiters === 0) entry.cancel(signal.reason);
+      reject(signal.reason as Error);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
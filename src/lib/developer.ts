@@ -1,9 +1,10 @@
 import type { App } from '../types/app.js';
 import type { DeveloperOptions } from '../types/options.js';
 import { DEFAULT_COUNTRY } from '../types/constants.js';
-import { lookup } from './common.js';
+import { lookup, checkLang } from './common.js';
 import { ValidationError } from './errors.js';
 import { validateCountry } from './validate.js';
+import { traced } from './metrics.js';
 
 /**
  * Retrieves all apps from a specific developer.
@@ -18,12 +19,17 @@ import { validateCountry } from './validate.js';
  * ```
  */
 export async function developer(options: DeveloperOptions): Promise<App[]> {
-  const { devId, country = DEFAULT_COUNTRY, lang, requestOptions } = options;
+  return traced('developer', () => fetchDeveloperApps(options));
+}
+
+async function fetchDeveloperApps(options: DeveloperOptions): Promise<App[]> {
+  const { devId, country = DEFAULT_COUNTRY, lang, includeRaw = false, requestOptions } = options;
 
   validateCountry(country);
+  checkLang(lang, country, requestOptions);
   if (devId == null) {
     throw new ValidationError('devId is required', 'devId');
   }
 
-  return lookup(devId, 'artistId', country, lang, requestOptions);
+  return lookup(devId, 'artistId', country, lang, requestOptions, includeRaw);
 }
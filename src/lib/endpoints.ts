@@ -0,0 +1,78 @@
+/**
+ * Apple endpoint registry and identification.
+ *
+ * Every request URL is built from the base URL of its logical endpoint, so a client can
+ * route any endpoint through a reverse proxy, a mock server, or a mirror host with
+ * `requestOptions.endpoints`. URLs are mapped back to their endpoint by path so
+ * per-endpoint settings (e.g. cache TTL overrides) apply inside `doRequest` without
+ * changing its signature, whichever base URL is used.
+ */
+import type { EndpointName, RequestOptions } from '../types/options.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Default base URL per endpoint. Paths (`/lookup`, `/us/rss/...`, `/us/app/id1`, ...) are
+ * appended to the base, so an override may include a path prefix.
+ */
+export const DEFAULT_ENDPOINTS: Readonly<Record<EndpointName, string>> = {
+  lookup: 'https://itunes.apple.com',
+  search: 'https://itunes.apple.com',
+  rss: 'https://itunes.apple.com',
+  customerReviews: 'https://itunes.apple.com',
+  hints: 'https://search.itunes.apple.com',
+  appPage: 'https://apps.apple.com',
+  storefronts: 'https://itunes.apple.com',
+};
+
+/**
+ * Builds the URL for `path` on the endpoint's base URL (`requestOptions.endpoints` override,
+ * otherwise {@link DEFAULT_ENDPOINTS}).
+ * @param path - Path and query starting with `/`
+ * @throws {ValidationError} with field `endpoints.<name>` if the override is not an absolute http(s) URL
+ * @internal
+ */
+export function endpointUrl(
+  name: EndpointName,
+  path: string,
+  requestOptions?: RequestOptions
+): string {
+  const override = requestOptions?.endpoints?.[name];
+  if (override === undefined) return DEFAULT_ENDPOINTS[name] + path;
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(override).protocol;
+  } catch {
+    protocol = undefined;
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new ValidationError(
+      `Invalid ${name} endpoint: must be an absolute http(s) URL, got ${override}`,
+      `endpoints.${name}`
+    );
+  }
+  return override.replace(/\/+$/, '') + path;
+}
+
+/**
+ * Returns the logical endpoint for a request URL, or undefined for URLs that do not
+ * match a known Apple endpoint path (e.g. custom URLs passed to `doRequest` directly).
+ * Matches on the path only, so URLs on overridden base URLs are classified too.
+ * @internal
+ */
+export function endpointForUrl(url: string): EndpointName | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  const { pathname } = parsed;
+  if (pathname.includes('/MZSearchHints.woa/')) return 'hints';
+  if (pathname.endsWith('/availableStoreFronts')) return 'storefronts';
+  if (pathname.endsWith('/lookup')) return 'lookup';
+  if (pathname.endsWith('/search')) return 'search';
+  if (pathname.includes('/customer-reviews/')) return 'customerReviews';
+  if (pathname.includes('/rss/')) return 'rss';
+  if (/\/app\/(?:[^/]+\/)?id\d+$/.test(pathname)) return 'appPage';
+  return undefined;
+}
@@ -1,3 +1,5 @@
+import type { z } from 'zod';
+
 /**
  * Error thrown when an HTTP request fails with a non-OK status.
  * Extends Error so existing `catch (err)` and `err.message` checks keep working.
@@ -23,9 +25,13 @@ export class HttpError extends Error {
   readonly status: number;
   /** Request URL (if available). */
   readonly url?: string;
+  /** Number of attempts `doRequest` made, including retries (set on errors thrown by `doRequest`). */
+  attempts?: number;
+  /** Total time spent waiting between attempts in milliseconds (set on errors thrown by `doRequest`). */
+  totalWaitMs?: number;
 
-  constructor(message: string, status: number, url?: string) {
-    super(message);
+  constructor(message: string, status: number, url?: string, options?: ErrorOptions) {
+    super(message, options);
     // Ensures instanceof HttpError works after transpilation to ES5 (e.g. Babel, older targets).
     Object.setPrototypeOf(this, HttpError.prototype);
     this.name = 'HttpError';
@@ -70,6 +76,101 @@ export class RatingsEmptyError extends HttpError {
   }
 }
 
+/**
+ * Error thrown when a resource does not exist: a 404 response, or an app that the
+ * lookup API did not return (logical 404). Extends {@link HttpError} with `status` 404,
+ * so existing `error.status === 404` checks keep working.
+ *
+ * @example
+ * try {
+ *   await app({ id: 1 });
+ * } catch (err) {
+ *   if (err instanceof NotFoundError) {
+ *     // app does not exist in this storefront
+ *   }
+ * }
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string, url?: string) {
+    super(message, 404, url);
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+    this.name = 'NotFoundError';
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, NotFoundError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown when Apple throttles a request (HTTP 429) and no retries remain.
+ * Extends {@link HttpError} with `status` 429. `retryAfterMs` holds the delay requested by
+ * the `Retry-After` header, when present.
+ */
+export class RateLimitError extends HttpError {
+  /** Delay requested by the `Retry-After` response header in milliseconds (if sent). */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, url?: string, retryAfterMs?: number) {
+    super(message, 429, url);
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RateLimitError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown when a request exceeds `requestOptions.timeoutMs`. Extends {@link HttpError}
+ * with the logical `status` 408 (no response was received); the original `TimeoutError`
+ * DOMException is kept as `cause`. `name` stays `'TimeoutError'`, so checks on the
+ * DOMException name keep working.
+ */
+export class TimeoutError extends HttpError {
+  /** Timeout that was exceeded, in milliseconds. */
+  readonly timeoutMs?: number;
+
+  constructor(message: string, url?: string, timeoutMs?: number, options?: ErrorOptions) {
+    super(message, 408, url, options);
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TimeoutError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown when a response body cannot be parsed (e.g. invalid JSON from an API that
+ * returned an HTML error page). Extends {@link HttpError} so existing handling keeps working;
+ * `status` is the response status (200 unless known otherwise) and `bodyPreview` holds the
+ * start of the body for debugging.
+ */
+export class ResponseParseError extends HttpError {
+  /** First characters of the unparseable body. */
+  readonly bodyPreview: string;
+
+  constructor(message: string, status: number, bodyPreview: string, url?: string) {
+    super(message, status, url);
+    Object.setPrototypeOf(this, ResponseParseError.prototype);
+    this.name = 'ResponseParseError';
+    this.bodyPreview = bodyPreview;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ResponseParseError);
+    }
+    // Stryker restore all
+  }
+}
+
 /**
  * Error thrown when caller-provided options fail validation (e.g. missing required
  * fields, invalid country code, out-of-range pagination).
@@ -103,3 +204,160 @@ export class ValidationError extends Error {
     // Stryker restore all
   }
 }
+
+/**
+ * Error thrown when an Apple response parses but no longer matches the expected schema
+ * (Apple changed the payload shape). Extends {@link ValidationError} with `field` `'response'`,
+ * so existing checks keep working; `issues` holds the Zod issues for diagnostics.
+ *
+ * @example
+ * try {
+ *   await search({ term: 'minecraft' });
+ * } catch (err) {
+ *   if (err instanceof SchemaDriftError) {
+ *     console.error(err.issues.map((i) => `${i.path.join('.')}: ${i.message}`));
+ *   }
+ * }
+ */
+export class SchemaDriftError extends ValidationError {
+  /** Zod issues describing where the response deviated from the schema. */
+  readonly issues: readonly z.core.$ZodIssue[];
+
+  constructor(message: string, issues: readonly z.core.$ZodIssue[]) {
+    super(message, 'response');
+    Object.setPrototypeOf(this, SchemaDriftError.prototype);
+    this.name = 'SchemaDriftError';
+    this.issues = issues;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, SchemaDriftError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown by a {@link Cassette} in replay mode when a request has no recorded interaction.
+ * Not an {@link HttpError} and never retried, so a missing recording fails the test loudly
+ * instead of surfacing as a network failure.
+ *
+ * @example
+ * try {
+ *   await app({ id: 553834731, requestOptions: { fetch: cassette.fetch } });
+ * } catch (err) {
+ *   if (err instanceof CassetteMismatchError) console.error(`Re-record: ${err.url}`);
+ * }
+ */
+export class CassetteMismatchError extends Error {
+  /** URL of the unmatched request. */
+  readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    Object.setPrototypeOf(this, CassetteMismatchError.prototype);
+    this.name = 'CassetteMismatchError';
+    this.url = url;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CassetteMismatchError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown in offline mode (`requestOptions.cache.offline: true`) when a request has no
+ * cached response. No request is sent; not an {@link HttpError} and never retried.
+ *
+ * @example
+ * try {
+ *   await app({ id: 553834731, requestOptions: { cache: { store, offline: true } } });
+ * } catch (err) {
+ *   if (err instanceof CacheMissError) console.error(`Not in the crawl: ${err.url}`);
+ * }
+ */
+export class CacheMissError extends Error {
+  /** URL of the request that was not cached. */
+  readonly url: string;
+  /** Cache key that was looked up (URL plus store-front / language headers). */
+  readonly key: string;
+
+  constructor(message: string, url: string, key: string) {
+    super(message);
+    Object.setPrototypeOf(this, CacheMissError.prototype);
+    this.name = 'CacheMissError';
+    this.url = url;
+    this.key = key;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CacheMissError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown when a request is refused because its circuit is open (see `CircuitBreaker`).
+ * No request is sent; not an {@link HttpError} and never retried.
+ *
+ * @example
+ * try {
+ *   await privacy({ id: 553834731, requestOptions: { circuitBreaker } });
+ * } catch (err) {
+ *   if (err instanceof CircuitOpenError) console.warn(`${err.circuit} unavailable; skipping`);
+ * }
+ */
+export class CircuitOpenError extends Error {
+  /** URL of the refused request. */
+  readonly url: string;
+  /** Circuit name: the endpoint (e.g. `appPage`) or the hostname. */
+  readonly circuit: string;
+  /** Time until a trial request will be let through, when known. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, url: string, circuit: string, retryAfterMs?: number) {
+    super(message);
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+    this.name = 'CircuitOpenError';
+    this.url = url;
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircuitOpenError);
+    }
+    // Stryker restore all
+  }
+}
+
+/**
+ * Error thrown when a response body exceeds `requestOptions.maxBodyBytes` for its endpoint.
+ * Reading stops as soon as the limit is passed (or before reading, when `Content-Length`
+ * already exceeds it), so the body is never fully buffered. Not an {@link HttpError} and never retried.
+ *
+ * @example
+ * try {
+ *   await privacy({ id: 553834731, requestOptions: { maxBodyBytes: { appPage: 2_000_000 } } });
+ * } catch (err) {
+ *   if (err instanceof ResponseTooLargeError) console.warn(`${err.url} over ${err.maxBytes} bytes`);
+ * }
+ */
+export class ResponseTooLargeError extends Error {
+  /** URL of the request. */
+  readonly url: string;
+  /** Limit that was exceeded, in bytes. */
+  readonly maxBytes: number;
+
+  constructor(message: string, url: string, maxBytes: number) {
+    super(message);
+    Object.setPrototypeOf(this, ResponseTooLargeError.prototype);
+    this.name = 'ResponseTooLargeError';
+    this.url = url;
+    this.maxBytes = maxBytes;
+    // Stryker disable all: captureStackTrace is a V8 stack-trace optimization, not behavioral
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ResponseTooLargeError);
+    }
+    // Stryker restore all
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Disk-backed response cache store.
+ *
+ * Layout of the cache directory:
+ * - `index.json` – cache key → body hash, size, freshness window, and validators, least recently used first
+ * - `objects/<sha256>` – response bodies, content-addressed so identical bodies are stored once
+ *
+ * Files are replaced atomically (write to a uniquely named temporary file, then rename), so an
+ * interrupted process leaves the previous index intact. A directory should be used by one process at a time.
+ */
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheEntry, CacheStore, FileSystemCacheStoreOptions } from '../types/cache.js';
+import { ValidationError } from './errors.js';
+
+/** Default maximum number of entries kept by {@link FileSystemCacheStore}. */
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/** Default maximum total body size kept by {@link FileSystemCacheStore} (100 MiB). */
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+const INDEX_FILE = 'index.json';
+const OBJECTS_DIR = 'objects';
+
+/** Index record for one cache key. */
+interface IndexRecord {
+  /** SHA-256 of the body (hex); names the object file */
+  hash: string;
+  /** Body size in bytes */
+  size: number;
+  storedAt: number;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface IndexFile {
+  version: 1;
+  entries: Record<string, IndexRecord>;
+}
+
+/**
+ * Cache store that keeps entries on disk, so they survive process restarts. Entries are
+ * evicted least-recently-used first once `maxEntries` or `maxBytes` is exceeded; `prune()`
+ * removes expired entries. Combine with `offline: true` in the cache options to rerun
+ * analyses over a previous crawl without network access.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSystemCacheStore({ directory: '.cache/app-store' });
+ * // Crawl: cache responses for a day
+ * const crawler = createClient({ requestOptions: { cache: { store, ttlMs: 86_400_000 } } });
+ * await crawler.list({ num: 100, fullDetail: true });
+ *
+ * // Later, in another process: serve only from disk
+ * const offline = createClient({ requestOptions: { cache: { store, offline: true } } });
+ * await offline.list({ num: 100, fullDetail: true });
+ * ```
+ */
+export class FileSystemCacheStore implements CacheStore {
+  readonly directory: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  /** Loaded on first use; Map order is recency (least recently used first), saved with the next write. */
+  private index: Map<string, IndexRecord> | undefined;
+  /** Size and number of referring entries per body hash in the index, kept in step with it. */
+  private readonly bodies = new Map<string, { size: number; refs: number }>();
+  /** Total size of the distinct bodies in the index. */
+  private storedBytes = 0;
+  /** Operations run one at a time so index writes never interleave. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param options - `directory` (required), `maxEntries` (default 10000), `maxBytes` (default 100 MiB)
+   * @throws {ValidationError} with field "directory", "maxEntries", or "maxBytes" if invalid
+   */
+  constructor(options: FileSystemCacheStoreOptions) {
+    const { directory, maxEntries = DEFAULT_MAX_ENTRIES, maxBytes = DEFAULT_MAX_BYTES } = options;
+    if (typeof directory !== 'string' || directory === '') {
+      throw new ValidationError('directory must be a non-empty string', 'directory');
+    }
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new ValidationError('maxEntries must be a positive integer', 'maxEntries');
+    }
+    if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+      throw new ValidationError('maxBytes must be a positive integer', 'maxBytes');
+    }
+    this.directory = directory;
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+  }
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    return this.run(async (index) => {
+      const record = index.get(key);
+      if (record === undefined) return undefined;
+      let body: string;
+      try {
+        body = await readFile(this.objectPath(record.hash), 'utf8');
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+        // Body file removed behind our back: forget the entry.
+        this.removeRecord(index, key);
+        await this.writeIndex(index);
+        return undefined;
+      }
+      index.delete(key);
+      index.set(key, record);
+      const { storedAt, expiresAt, etag, lastModified } = record;
+      return {
+        body,
+        storedAt,
+        expiresAt,
+        ...(etag !== undefined ? { etag } : {}),
+        ...(lastModified !== undefined ? { lastModified } : {}),
+      };
+    });
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    return this.run(async (index) => {
+      const hash = createHash('sha256').update(entry.body).digest('hex');
+      await this.writeAtomic(this.objectPath(hash), entry.body);
+      const previous = this.removeRecord(index, key);
+      this.addRecord(index, key, {
+        hash,
+        size: Buffer.byteLength(entry.body),
+        storedAt: entry.storedAt,
+        expiresAt: entry.expiresAt,
+        etag: entry.etag,
+        lastModified: entry.lastModified,
+      });
+      const removed = this.evict(index);
+      await this.writeIndex(index);
+      await this.removeUnreferenced(previous ? [previous, ...removed] : removed);
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.run(async (index) => {
+      const record = this.removeRecord(index, key);
+      if (record === undefined) return;
+      await this.writeIndex(index);
+      await this.removeUnreferenced([record]);
+    });
+  }
+
+  /** Removes every entry and body file. */
+  clear(): Promise<void> {
+    return this.run(async (index) => {
+      index.clear();
+      this.bodies.clear();
+      this.storedBytes = 0;
+      await rm(join(this.directory, OBJECTS_DIR), { recursive: true, force: true });
+      await rm(join(this.directory, INDEX_FILE), { force: true });
+    });
+  }
+
+  /**
+   * Removes entries that expired at or before `now`.
+   * @returns Number of entries removed
+   */
+  prune(now = Date.now()): Promise<number> {
+    return this.run(async (index) => {
+      const removed: IndexRecord[] = [];
+      for (const [key, record] of index) {
+        if (record.expiresAt <= now) removed.push(this.removeRecord(index, key)!);
+      }
+      if (removed.length === 0) return 0;
+      await this.writeIndex(index);
+      await this.removeUnreferenced(removed);
+      return removed.length;
+    });
+  }
+
+  /** Number of entries currently stored. */
+  size(): Promise<number> {
+    return this.run((index) => Promise.resolve(index.size));
+  }
+
+  /** Queues `task` after every earlier operation, with the index loaded. */
+  private run<T>(task: (index: Map<string, IndexRecord>) => Promise<T>): Promise<T> {
+    const result = this.queue.then(async () => task(await this.loadIndex()));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async loadIndex(): Promise<Map<string, IndexRecord>> {
+    if (this.index !== undefined) return this.index;
+    let file: Partial<IndexFile> | null = null;
+    try {
+      file = JSON.parse(
+        await readFile(join(this.directory, INDEX_FILE), 'utf8')
+      ) as Partial<IndexFile> | null;
+    } catch (err) {
+      // A missing or unreadable index starts an empty cache; other I/O errors surface.
+      if (!isNotFound(err) && !(err instanceof SyntaxError)) throw err;
+    }
+    const entries = file?.version === 1 && file.entries != null ? file.entries : {};
+    const index = new Map<string, IndexRecord>();
+    for (const [key, record] of Object.entries(entries)) this.addRecord(index, key, record);
+    this.index = index;
+    return index;
+  }
+
+  private writeIndex(index: Map<string, IndexRecord>): Promise<void> {
+    const file: IndexFile = { version: 1, entries: Object.fromEntries(index) };
+    return this.writeAtomic(join(this.directory, INDEX_FILE), JSON.stringify(file));
+  }
+
+  /**
+   * Drops least recently used entries until both limits hold (a body larger than `maxBytes` is
+   * not kept); returns the removed records.
+   */
+  private evict(index: Map<string, IndexRecord>): IndexRecord[] {
+    const removed: IndexRecord[] = [];
+    while (index.size > this.maxEntries || this.storedBytes > this.maxBytes) {
+      const oldestKey = index.keys().next().value;
+      if (oldestKey === undefined) break;
+      removed.push(this.removeRecord(index, oldestKey)!);
+    }
+    return removed;
+  }
+
+  /** Adds `record` under `key` as the most recently used entry, counting its body. */
+  private addRecord(index: Map<string, IndexRecord>, key: string, record: IndexRecord): void {
+    index.set(key, record);
+    const body = this.bodies.get(record.hash);
+    if (body !== undefined) {
+      body.refs++;
+    } else {
+      this.bodies.set(record.hash, { size: record.size, refs: 1 });
+      this.storedBytes += record.size;
+    }
+  }
+
+  /** Removes the entry for `key`, releasing its body; returns the removed record. */
+  private removeRecord(index: Map<string, IndexRecord>, key: string): IndexRecord | undefined {
+    const record = index.get(key);
+    if (record === undefined) return undefined;
+    index.delete(key);
+    const body = this.bodies.get(record.hash);
+    if (body !== undefined && --body.refs === 0) {
+      this.bodies.delete(record.hash);
+      this.storedBytes -= body.size;
+    }
+    return record;
+  }
+
+  /** Deletes body files of `records` that no remaining entry refers to. */
+  private async removeUnreferenced(records: IndexRecord[]): Promise<void> {
+    for (const hash of new Set(records.map((r) => r.hash))) {
+      if (!this.bodies.has(hash)) await rm(this.objectPath(hash), { force: true });
+    }
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.directory, OBJECTS_DIR, hash);
+  }
+
+  private async writeAtomic(path: string, data: string): Promise<void> {
+    await mkdir(join(this.directory, OBJECTS_DIR), { recursive: true });
+    // Unique per write, so other stores on the same directory never share a temporary file.
+    const temp = `${path}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(temp, data, 'utf8');
+    await rename(temp, path);
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
@@ -5,14 +5,17 @@ import {
   DEFAULT_COUNTRY,
   ITUNES_API_MAX_LIMIT,
 } from '../types/constants.js';
-import { doRequest, lookup, ensureArray, parseAndValidate } from './common.js';
+import { doRequest, lookupInChunks, ensureArray, parseAndValidate, checkLang } from './common.js';
 import {
   validateCountry,
   validateCollection,
   validateCategory,
   validateListNum,
 } from './validate.js';
+import { getLogger } from './logger.js';
 import { rssFeedSchema, type RssFeedEntry } from './schemas.js';
+import { endpointUrl } from './endpoints.js';
+import { traced } from './metrics.js';
 
 /** Parses the app URL from a list feed entry (link with rel="alternate"). */
 function parseEntryLink(entry: RssFeedEntry): string {
@@ -33,9 +36,9 @@ function parseDeveloperIdFromHref(href: string | undefined): number {
 
 /**
  * Maps a validated RSS list feed entry to the light ListApp shape.
- * Used when fullDetail is false to avoid lookup requests.
+ * Used when fullDetail is false to avoid lookup requests. With `includeRaw`, the entry is attached as `raw`.
  */
-function rssEntryToListApp(entry: RssFeedEntry): ListApp | null {
+function rssEntryToListApp(entry: RssFeedEntry, includeRaw: boolean): ListApp | null {
   const idStr = entry.id?.attributes?.['im:id'];
   if (!idStr) return null;
   const id = parseInt(idStr, 10);
@@ -77,23 +80,36 @@ function rssEntryToListApp(entry: RssFeedEntry): ListApp | null {
       return Number.isNaN(n) ? 0 : n;
     })(),
     released: entry['im:releaseDate']?.label ?? '',
+    ...(includeRaw && { raw: entry }),
   };
 }
 
+/** Reports feed entries dropped for a missing or invalid id. */
+function warnSkipped(
+  skipped: number,
+  collection: string,
+  requestOptions: ListOptions['requestOptions']
+): void {
+  getLogger(requestOptions).warn(
+    `list(): skipped ${skipped} feed entries with missing or invalid id`,
+    { collection, skipped }
+  );
+}
+
 /**
  * Retrieves a list of apps from iTunes collections.
  *
  * When `fullDetail: false` (default), returns a light shape ({@link ListApp}) built only from the RSS
  * feed—no extra lookup requests. When `fullDetail: true`, fetches full details via the lookup API
- * and returns {@link App[]}.
+ * (in chunks of 50 IDs, up to 4 requests in parallel) and returns {@link App[]}.
  *
  * @param options - Options for filtering and pagination.
  *   **Note:** `lang` only takes effect when `fullDetail: true` (passed to the lookup API).
  *   The RSS feed endpoint used for `fullDetail: false` does not support a language parameter.
  * @returns Promise resolving to {@link ListApp[]} when `fullDetail` is false, or {@link App[]} when true.
  *   If `fullDetail` is a boolean variable, the return type is {@link ListApp[]} | {@link App[]}.
- *   Feed entries with a missing or unparseable `im:id` are skipped; when this happens a
- *   `console.warn` is emitted with the count of dropped entries.
+ *   Feed entries with a missing or unparseable `im:id` are skipped; when this happens a warning
+ *   with the count of dropped entries is sent to the configured logger (see `requestOptions.logger`).
  * @throws {ValidationError} if `country`, `collection`, `category`, or `num` are invalid
  * @throws {HttpError} on non-OK HTTP response from the iTunes RSS feed
  *
@@ -114,6 +130,10 @@ export async function list(options: ListOptions & { fullDetail: true }): Promise
 export async function list(options?: ListOptions & { fullDetail?: false }): Promise<ListApp[]>;
 export async function list(options: ListOptions): Promise<ListApp[] | App[]>;
 export async function list(options: ListOptions = {}): Promise<ListApp[] | App[]> {
+  return traced('list', () => fetchList(options));
+}
+
+async function fetchList(options: ListOptions): Promise<ListApp[] | App[]> {
   const {
     collection = collectionConstants.TOP_FREE_IOS,
     category,
@@ -121,21 +141,24 @@ export async function list(options: ListOptions = {}): Promise<ListApp[] | App[]
     country = DEFAULT_COUNTRY,
     lang,
     fullDetail = false,
+    includeRaw = false,
     requestOptions,
   } = options;
 
   validateCountry(country);
+  checkLang(lang, country, requestOptions);
   validateCollection(collection);
   if (category != null) validateCategory(category);
   validateListNum(num);
 
   const limit = Math.min(num, ITUNES_API_MAX_LIMIT);
 
-  let url = `https://itunes.apple.com/${country}/rss/${collection}`;
+  let path = `/${country}/rss/${collection}`;
   if (category != null) {
-    url += `/genre=${category}`;
+    path += `/genre=${category}`;
   }
-  url += `/limit=${limit}/json`;
+  path += `/limit=${limit}/json`;
+  const url = endpointUrl('rss', path, requestOptions);
 
   const body = await doRequest(url, requestOptions);
   const data = parseAndValidate(body, rssFeedSchema, 'List API response');
@@ -149,7 +172,7 @@ export async function list(options: ListOptions = {}): Promise<ListApp[] | App[]
     const result: ListApp[] = [];
     let skipped = 0;
     for (const entry of entries) {
-      const app = rssEntryToListApp(entry);
+      const app = rssEntryToListApp(entry, includeRaw);
       if (app) {
         result.push(app);
       } else {
@@ -157,7 +180,7 @@ export async function list(options: ListOptions = {}): Promise<ListApp[] | App[]
       }
     }
     if (skipped > 0) {
-      console.warn(`list(): skipped ${skipped} feed entries with missing or invalid id`);
+      warnSkipped(skipped, collection, requestOptions);
     }
     return result;
   }
@@ -178,12 +201,12 @@ export async function list(options: ListOptions = {}): Promise<ListApp[] | App[]
     ids.push(n);
   }
   if (skipped > 0) {
-    console.warn(`list(): skipped ${skipped} feed entries with missing or invalid id`);
+    warnSkipped(skipped, collection, requestOptions);
   }
 
   if (ids.length === 0) {
     return [];
   }
 
-  return lookup(ids, 'id', country, lang, requestOptions);
+  return lookupInChunks(ids, 'id', country, lang, requestOptions, { includeRaw });
 }
@@ -0,0 +1,45 @@
+/**
+ * Library diagnostics.
+ *
+ * Everything the library wants to report without failing the call (skipped entries, histogram
+ * mismatches, retries, fallbacks) goes through a {@link Logger}. The default logger is silent, so
+ * library code never writes to stdout or stderr unless a logger is configured globally
+ * ({@link setLogger}) or per call / per client (`requestOptions.logger`).
+ */
+import type { Logger } from '../types/logger.js';
+import type { RequestOptions } from '../types/options.js';
+
+const noop = (): void => {};
+
+/** Logger that discards every message (the default). */
+export const silentLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop };
+
+let globalLogger: Logger = silentLogger;
+
+/**
+ * Sets the logger used when `requestOptions.logger` is not given. Pass `undefined` to restore
+ * the silent default.
+ *
+ * @example
+ * ```typescript
+ * setLogger(console);
+ * const log = pino().child({ module: 'app-store-scraper' });
+ * setLogger({
+ *   debug: (message, context) => log.debug(context ?? {}, message),
+ *   info: (message, context) => log.info(context ?? {}, message),
+ *   warn: (message, context) => log.warn(context ?? {}, message),
+ *   error: (message, context) => log.error(context ?? {}, message),
+ * });
+ * ```
+ */
+export function setLogger(logger: Logger | undefined): void {
+  globalLogger = logger ?? silentLogger;
+}
+
+/**
+ * Returns the logger for a call: `requestOptions.logger` when set, otherwise the global logger.
+ * @internal
+ */
+export function getLogger(requestOptions?: RequestOptions): Logger {
+  return requestOptions?.logger ?? globalLogger;
+}
@@ -0,0 +1,167 @@
+/**
+ * Request metrics.
+ *
+ * `doRequest` reports every call to `requestOptions.metrics`. The call path that led to a request
+ * (public method, then internal helpers such as `fetchAppPage` or `lookup`) is tracked with
+ * `AsyncLocalStorage`, so it survives awaits and concurrent calls without being threaded through
+ * every function's options.
+ */
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type {
+  MetricsCollectorOptions,
+  MetricsSink,
+  MetricsStats,
+  MetricsSummary,
+  RequestMetricsEvent,
+} from '../types/metrics.js';
+import { ValidationError } from './errors.js';
+
+/** Default latency samples kept per group by {@link MetricsCollector}. */
+const DEFAULT_MAX_SAMPLES = 10_000;
+
+const callPath = new AsyncLocalStorage<readonly string[]>();
+
+/**
+ * Runs `fn` with `name` appended to the current call path (see {@link currentTrace}).
+ * @internal
+ */
+export function traced<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  return callPath.run([...(callPath.getStore() ?? []), name], fn);
+}
+
+/**
+ * Call path of the running code, outermost public method first (empty outside any traced call).
+ * @internal
+ */
+export function currentTrace(): string[] {
+  return [...(callPath.getStore() ?? [])];
+}
+
+/** Running totals and latency samples for one group of requests. */
+class MetricsGroup {
+  requests = 0;
+  errors = 0;
+  cacheHits = 0;
+  retries = 0;
+  bytes = 0;
+  readonly statuses = new Map<number, number>();
+  readonly errorTypes = new Map<string, number>();
+  /** Ring buffer of the most recent durations */
+  private readonly samples: number[] = [];
+  private next = 0;
+  private readonly maxSamples: number;
+
+  constructor(maxSamples: number) {
+    this.maxSamples = maxSamples;
+  }
+
+  add(event: RequestMetricsEvent): void {
+    this.requests++;
+    if (!event.ok) this.errors++;
+    if (event.cacheHit) this.cacheHits++;
+    this.retries += event.retries;
+    this.bytes += event.bytes;
+    if (event.status !== undefined) increment(this.statuses, event.status);
+    if (event.error !== undefined) increment(this.errorTypes, event.error);
+    this.samples[this.next] = event.durationMs;
+    this.next = (this.next + 1) % this.maxSamples;
+  }
+
+  summary(): MetricsSummary {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    return {
+      requests: this.requests,
+      errors: this.errors,
+      errorRate: this.requests === 0 ? 0 : this.errors / this.requests,
+      cacheHits: this.cacheHits,
+      retries: this.retries,
+      bytes: this.bytes,
+      latencyMs: {
+        p50: percentile(sorted, 0.5),
+        p95: percentile(sorted, 0.95),
+        max: sorted.at(-1) ?? 0,
+      },
+      statuses: Object.fromEntries([...this.statuses].map(([status, n]) => [String(status), n])),
+      errorTypes: Object.fromEntries(this.errorTypes),
+    };
+  }
+}
+
+/**
+ * Metrics sink that aggregates request events in memory: counts, error rate, cache hits,
+ * retries, bytes, p50/p95 latency, and requests by status and error type, overall and per
+ * endpoint and public method. Share one per client and read `stats()` periodically to forward
+ * the figures to your monitoring.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ * const store = createClient({ requestOptions: { metrics } });
+ * await store.similar({ id: 553834731 });
+ * const { latencyMs, errorRate, byMethod } = metrics.stats();
+ * ```
+ */
+export class MetricsCollector implements MetricsSink {
+  private readonly maxSamples: number;
+  private overall: MetricsGroup;
+  private readonly byEndpoint = new Map<string, MetricsGroup>();
+  private readonly byMethod = new Map<string, MetricsGroup>();
+
+  /**
+   * @param options - `maxSamples` (default 10000); must be a positive integer
+   * @throws {ValidationError} with field "maxSamples" if invalid
+   */
+  constructor(options: MetricsCollectorOptions = {}) {
+    const { maxSamples = DEFAULT_MAX_SAMPLES } = options;
+    if (!Number.isInteger(maxSamples) || maxSamples < 1) {
+      throw new ValidationError('maxSamples must be a positive integer', 'maxSamples');
+    }
+    this.maxSamples = maxSamples;
+    this.overall = new MetricsGroup(maxSamples);
+  }
+
+  record(event: RequestMetricsEvent): void {
+    this.overall.add(event);
+    if (event.endpoint !== undefined) this.group(this.byEndpoint, event.endpoint).add(event);
+    if (event.method !== undefined) this.group(this.byMethod, event.method).add(event);
+  }
+
+  /** Statistics over every event recorded since construction or the last `reset()`. */
+  stats(): MetricsStats {
+    return {
+      ...this.overall.summary(),
+      byEndpoint: summaries(this.byEndpoint),
+      byMethod: summaries(this.byMethod),
+    };
+  }
+
+  /** Discards all recorded events. */
+  reset(): void {
+    this.overall = new MetricsGroup(this.maxSamples);
+    this.byEndpoint.clear();
+    this.byMethod.clear();
+  }
+
+  private group(groups: Map<string, MetricsGroup>, name: string): MetricsGroup {
+    let group = groups.get(name);
+    if (group === undefined) {
+      group = new MetricsGroup(this.maxSamples);
+      groups.set(name, group);
+    }
+    return group;
+  }
+}
+
+function increment<K>(counts: Map<K, number>, key: K): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/** Nearest-rank percentile of ascending `sorted` values (0 when empty). */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)]!;
+}
+
+function summaries(groups: Map<string, MetricsGroup>): Record<string, MetricsSummary> {
+  return Object.fromEntries([...groups].map(([name, group]) => [name, group.summary()]));
+}
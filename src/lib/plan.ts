@@ -0,0 +1,129 @@
+/**
+ * Dry-run planning: the HTTP requests a method would make, without network access.
+ *
+ * The method runs unchanged against a recording transport that answers every request with a
+ * minimal synthetic response for its endpoint, so validation, URL building, headers, and
+ * multi-step flows (bundle ID → lookup → app page → lookup) are exercised exactly as in a real call.
+ */
+import type { PlannedRequest } from '../types/plan.js';
+import type { FetchFunction, RequestOptions } from '../types/options.js';
+import { endpointForUrl } from './endpoints.js';
+import { RateLimiter } from './rate-limit.js';
+
+/** Placeholder ID of the similar app linked from a simulated app page. */
+const PLANNED_SIMILAR_ID = 1;
+
+/**
+ * Returns the requests `method(options)` would make, in order, without fetching anything.
+ *
+ * Pass any API method (or a client's bound method, to include its defaults) with the options
+ * you would call it with. Validation runs first, so invalid options reject with the usual
+ * `ValidationError`. Responses are simulated for the worst case, so optional steps are planned:
+ * `app()` includes the app-page screenshot fallback. Values that only a response would reveal are
+ * placeholders: a track ID resolved from a bundle ID is `0`, and apps found on a chart or an app
+ * page are IDs `1`, `2`, ... (one per chart position, one similar app).
+ *
+ * The cache, circuit breaker, metrics, retries, hooks, and request deduplication are bypassed, and
+ * `requestOptions.rateLimiter` is replaced by an unlimited limiter, so neither the caller's limiter
+ * nor a method's default budget (`availability()`) paces the plan. The other `requestOptions`
+ * (headers, endpoints, timeoutMs, signal) apply as usual.
+ *
+ * @param method - API method to plan, e.g. `app` or `store.similar`
+ * @param options - Options for `method`
+ * @returns Planned requests, in the order they would be sent
+ * @throws {ValidationError} if `method` rejects the options
+ *
+ * @example
+ * ```typescript
+ * const steps = await planRequests(similar, { appId: 'com.midasplayer.apps.candycrushsaga' });
+ * // [lookup?bundleId=..., apps.apple.com/us/app/id0, lookup?id=1]
+ * steps.map((s) => `${s.step}. ${s.method} ${s.url}`);
+ * ```
+ */
+export async function planRequests<O extends { requestOptions?: RequestOptions }>(
+  method: (options: O) => Promise<unknown>,
+  options: O
+): Promise<PlannedRequest[]> {
+  const planned: PlannedRequest[] = [];
+  const fetch: FetchFunction = (url, init) => {
+    const endpoint = endpointForUrl(url);
+    planned.push({
+      step: planned.length + 1,
+      method: 'GET',
+      url,
+      headers: { ...(init.headers as Record<string, string>) },
+      endpoint,
+    });
+    return Promise.resolve(simulatedResponse(url));
+  };
+  await method({
+    ...options,
+    requestOptions: {
+      ...options.requestOptions,
+      fetch,
+      cache: undefined,
+      // Unlimited rather than unset, so methods with a default budget (availability) are not paced
+      rateLimiter: new RateLimiter(),
+      circuitBreaker: undefined,
+      metrics: undefined,
+      retries: 0,
+      hooks: undefined,
+      dedupe: false,
+    },
+  });
+  return planned;
+}
+
+/**
+ * Minimal successful response for the request's endpoint, shaped so the calling method takes
+ * every dependent step (see {@link planRequests} for the placeholder IDs).
+ */
+function simulatedResponse(url: string): Response {
+  const { pathname, searchParams } = new URL(url);
+  switch (endpointForUrl(url)) {
+    case 'lookup':
+    case 'search': {
+      const ids = searchParams.get('id')?.split(',') ?? [];
+      const bundleIds = searchParams.get('bundleId')?.split(',') ?? [];
+      const results = [
+        ...ids.map((id) => ({ kind: 'software', trackId: Number(id) })),
+        ...bundleIds.map((bundleId) => ({ kind: 'software', bundleId })),
+      ];
+      return json({ resultCount: results.length, results });
+    }
+    case 'rss': {
+      if (pathname.includes('/customerreviews/')) return json({ feed: {} });
+      const limit = Number(pathname.match(/\/limit=(\d+)\//)?.[1] ?? 0);
+      const entry = Array.from({ length: limit }, (_, i) => ({
+        id: { attributes: { 'im:id': String(i + 1) } },
+      }));
+      return json({ feed: { entry } });
+    }
+    case 'customerReviews': {
+      const rows = [5, 4, 3, 2, 1]
+        .map(
+          (star) =>
+            `<div class="vote" aria-label="${star} stars"><span class="total">0</span></div>`
+        )
+        .join('');
+      return new Response(`<div class="rating-count">0 Ratings</div>${rows}`);
+    }
+    case 'hints':
+      return new Response(
+        '<plist version="1.0"><dict><key>hints</key><array></array></dict></plist>'
+      );
+    case 'storefronts':
+      return json({ data: [] });
+    case 'appPage': {
+      return new Response(
+        `<h2>You Might Also Like</h2><a href="/app/id${PLANNED_SIMILAR_ID}">App</a>`
+      );
+    }
+    default:
+      return new Response('');
+  }
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+}
@@ -12,6 +12,7 @@ import {
 import { validateCountry } from './validate.js';
 import { ValidationError } from './errors.js';
 import { parsePrivacyFromHtml } from './parsers.js';
+import { traced } from './metrics.js';
 
 /**
  * Retrieves privacy policy details for an app.
@@ -29,6 +30,10 @@ import { parsePrivacyFromHtml } from './parsers.js';
  * ```
  */
 export async function privacy(options: PrivacyOptions): Promise<PrivacyDetails> {
+  return traced('privacy', () => fetchPrivacy(options));
+}
+
+async function fetchPrivacy(options: PrivacyOptions): Promise<PrivacyDetails> {
   validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
 
   const { appId, country = DEFAULT_COUNTRY, requestOptions } = options;
@@ -47,7 +52,7 @@ export async function privacy(options: PrivacyOptions): Promise<PrivacyDetails>
     throw new ValidationError('Either id or appId is required', 'id/appId');
   }
 
-  const url = appPageUrl(country, id);
+  const url = appPageUrl(country, id, requestOptions);
   const appPageBody = await fetchAppPage(url, requestOptions);
   if (appPageBody === null) return {};
 
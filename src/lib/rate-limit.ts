@@ -0,0 +1,164 @@
+/**
+ * Shared per-host rate limiter used by `doRequest`.
+ *
+ * Each host gets a token bucket (sustained rate + burst) and an optional
+ * concurrency cap. Waiting requests are served strictly first-in, first-out
+ * per host, so a large `Promise.all` fan-out cannot starve calls queued before it.
+ */
+import type { RateLimitBudget, RateLimiterOptions, RequestLimiter } from '../types/rate-limit.js';
+import { ValidationError } from './errors.js';
+
+/** Per-host limiter state. */
+interface HostState {
+  budget: RateLimitBudget;
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  queue: Array<() => void>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Throws ValidationError when a budget field is out of range. */
+function validateBudget(budget: RateLimitBudget, host: string): void {
+  const { requestsPerSecond, burst, maxConcurrent } = budget;
+  if (
+    requestsPerSecond !== undefined &&
+    (!Number.isFinite(requestsPerSecond) || requestsPerSecond <= 0)
+  ) {
+    throw new ValidationError(
+      `requestsPerSecond for ${host} must be a positive number`,
+      'requestsPerSecond'
+    );
+  }
+  if (burst !== undefined && (!Number.isInteger(burst) || burst < 1)) {
+    throw new ValidationError(`burst for ${host} must be a positive integer`, 'burst');
+  }
+  if (maxConcurrent !== undefined && (!Number.isInteger(maxConcurrent) || maxConcurrent < 1)) {
+    throw new ValidationError(
+      `maxConcurrent for ${host} must be a positive integer`,
+      'maxConcurrent'
+    );
+  }
+}
+
+/**
+ * Token-bucket and concurrency limiter with per-host budgets. Create one and share it
+ * across calls (usually via `createClient({ requestOptions: { rateLimiter } })`); every
+ * request attempt through `doRequest`, including retries, waits for a slot. Cache hits do not.
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = new RateLimiter({
+ *   hosts: {
+ *     'itunes.apple.com': { requestsPerSecond: 5, maxConcurrent: 4 },
+ *     'apps.apple.com': { requestsPerSecond: 1, maxConcurrent: 1 },
+ *   },
+ *   default: { requestsPerSecond: 2 },
+ * });
+ * const store = createClient({ requestOptions: { rateLimiter } });
+ * ```
+ */
+export class RateLimiter implements RequestLimiter {
+  private readonly hosts: Record<string, RateLimitBudget>;
+  private readonly defaultBudget: RateLimitBudget;
+  private readonly state = new Map<string, HostState>();
+
+  /**
+   * @throws {ValidationError} if any budget has a non-positive rate, burst, or concurrency
+   */
+  constructor(options: RateLimiterOptions = {}) {
+    this.hosts = {};
+    for (const [host, budget] of Object.entries(options.hosts ?? {})) {
+      validateBudget(budget, host);
+      this.hosts[host.toLowerCase()] = budget;
+    }
+    this.defaultBudget = options.default ?? {};
+    validateBudget(this.defaultBudget, 'default');
+  }
+
+  /** Number of requests waiting for a slot on `host`. */
+  pending(host: string): number {
+    return this.state.get(host.toLowerCase())?.queue.length ?? 0;
+  }
+
+  /**
+   * Waits until a request to `url` may start, then returns a `release` function that must be
+   * called when the request finishes (success or failure). Calling `release` more than once is a no-op.
+   * If `signal` aborts while waiting, the request leaves the queue and the promise rejects with `signal.reason`.
+   */
+  async acquire(url: string, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+    const host = this.stateFor(new URL(url).hostname);
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = host.queue.indexOf(grant);
+        if (index !== -1) host.queue.splice(index, 1);
+        reject(signal?.reason as Error);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      host.queue.push(grant);
+      this.pump(host);
+    });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      host.active--;
+      this.pump(host);
+    };
+  }
+
+  /** Runs `fn` once a slot for `url` is available, releasing the slot when it settles. */
+  async schedule<T>(url: string, fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire(url);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  private stateFor(hostname: string): HostState {
+    const key = hostname.toLowerCase();
+    let host = this.state.get(key);
+    if (host === undefined) {
+      const budget = this.hosts[key] ?? this.defaultBudget;
+      host = { budget, tokens: budget.burst ?? 1, lastRefill: Date.now(), active: 0, queue: [] };
+      this.state.set(key, host);
+    }
+    return host;
+  }
+
+  /** Grants slots to queued requests (FIFO) while tokens and concurrency allow. */
+  private pump(host: HostState): void {
+    const { requestsPerSecond, burst = 1, maxConcurrent } = host.budget;
+    while (host.queue.length > 0) {
+      if (maxConcurrent !== undefined && host.active >= maxConcurrent) return; // release re-pumps
+      if (requestsPerSecond !== undefined) {
+        const now = Date.now();
+        host.tokens = Math.min(
+          burst,
+          host.tokens + ((now - host.lastRefill) / 1000) * requestsPerSecond
+        );
+        host.lastRefill = now;
+        if (host.tokens < 1) {
+          if (host.timer === undefined) {
+            const waitMs = Math.ceil(((1 - host.tokens) / requestsPerSecond) * 1000);
+            host.timer = setTimeout(() => {
+              host.timer = undefined;
+              this.pump(host);
+            }, waitMs);
+          }
+          return;
+        }
+        host.tokens -= 1;
+      }
+      host.active++;
+      host.queue.shift()?.();
+    }
+  }
+}
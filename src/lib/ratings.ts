@@ -3,8 +3,11 @@ import type { Ratings, RatingHistogram } from '../types/app.js';
 import type { RatingsOptions } from '../types/options.js';
 import { DEFAULT_COUNTRY } from '../types/constants.js';
 import { doRequest, storeId, validateRequiredField } from './common.js';
+import { getLogger } from './logger.js';
 import { validateCountry } from './validate.js';
 import { RatingsEmptyError } from './errors.js';
+import { endpointUrl } from './endpoints.js';
+import { traced } from './metrics.js';
 
 /**
  * Retrieves the rating histogram for an app (1-5 star breakdown).
@@ -19,17 +22,26 @@ import { RatingsEmptyError } from './errors.js';
  * ```typescript
  * const result = await ratings({ id: 553834731 });
  * // Returns: { ratings: 4800, histogram: { 1: 100, 2: 200, 3: 500, 4: 1000, 5: 3000 } }
- * // May include optional warnings when histogram sum does not match total.
+ * // May include optional warnings when histogram sum does not match total; each warning is
+ * // also sent to the configured logger (`requestOptions.logger`).
  * ```
  */
 export async function ratings(options: RatingsOptions): Promise<Ratings> {
+  return traced('ratings', () => fetchRatings(options));
+}
+
+async function fetchRatings(options: RatingsOptions): Promise<Ratings> {
   const { id, country = DEFAULT_COUNTRY, requestOptions } = options;
 
   validateRequiredField(options, ['id'], 'id is required');
   validateCountry(country);
 
   const storeFront = storeId(country);
-  const url = `https://itunes.apple.com/${country}/customer-reviews/id${id}?displayable-kind=11`;
+  const url = endpointUrl(
+    'customerReviews',
+    `/${country}/customer-reviews/id${id}?displayable-kind=11`,
+    requestOptions
+  );
 
   const html = await doRequest(url, {
     ...(requestOptions ?? {}),
@@ -43,14 +55,19 @@ export async function ratings(options: RatingsOptions): Promise<Ratings> {
     throw new RatingsEmptyError(url);
   }
 
-  return parseRatings(html);
+  const result = parseRatings(html);
+  const logger = getLogger(requestOptions);
+  for (const warning of result.warnings ?? []) {
+    logger.warn(`ratings(): ${warning}`, { id, country, ratings: result.ratings });
+  }
+  return result;
 }
 
 /**
  * Parses ratings from iTunes customer-reviews HTML.
  * Exported for unit testing (histogram shape / BUG-2).
  * When the histogram bar sum does not match the total count (e.g. page structure change),
- * returns the parsed result with a `warnings` array; consumers control logging.
+ * returns the parsed result with a `warnings` array; {@link ratings} also logs them.
  * @param html - Raw HTML from the customer-reviews page
  * @returns Ratings with total count and histogram (keys 1–5 only). May include `warnings` when histogram sum ≠ total.
  */
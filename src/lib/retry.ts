@@ -0,0 +1,154 @@
+/**
+ * Retry policy used by `doRequest`: which failures are retried, how long to wait
+ * between attempts (exponential backoff, jitter, `Retry-After`), and when to give up.
+ */
+import type { JitterStrategy, RetryContext, RetryPolicy } from '../types/retry.js';
+import { ValidationError } from './errors.js';
+
+/** Retry policy with defaults applied. @internal */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'maxElapsedMs' | 'shouldRetry'>> &
+  Pick<RetryPolicy, 'maxElapsedMs' | 'shouldRetry'>;
+
+const DEFAULT_RETRYABLE_STATUSES: readonly number[] = [429, 503];
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const JITTER_STRATEGIES = new Set<JitterStrategy>(['equal', 'full', 'none']);
+
+/** Throws ValidationError unless `value` is undefined or a finite number (> 0, or >= 0 when `inclusive`). */
+function validateDelay(value: number | undefined, field: string, inclusive: boolean): void {
+  if (value === undefined) return;
+  if (!Number.isFinite(value) || value < 0 || (!inclusive && value === 0)) {
+    throw new ValidationError(
+      `Invalid ${field}: must be a ${inclusive ? 'non-negative' : 'positive'} number, got ${String(value)}`,
+      field
+    );
+  }
+}
+
+/**
+ * Applies defaults to a retry policy and validates it.
+ * @throws {ValidationError} for negative/non-finite delays or an unknown jitter strategy
+ * @internal
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): ResolvedRetryPolicy {
+  validateDelay(policy.baseDelayMs, 'baseDelayMs', true);
+  validateDelay(policy.maxDelayMs, 'maxDelayMs', false);
+  validateDelay(policy.maxElapsedMs, 'maxElapsedMs', false);
+  if (policy.jitter !== undefined && !JITTER_STRATEGIES.has(policy.jitter)) {
+    throw new ValidationError(
+      `Invalid jitter: expected one of equal, full, none, got ${String(policy.jitter)}`,
+      'jitter'
+    );
+  }
+  return {
+    retryableStatuses: policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES,
+    baseDelayMs: policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    jitter: policy.jitter ?? 'equal',
+    maxElapsedMs: policy.maxElapsedMs,
+    shouldRetry: policy.shouldRetry,
+  };
+}
+
+/**
+ * Returns true if the failure is transient and worth retrying by default (GET is idempotent):
+ * a retryable status, a network error (TypeError), or a timeout/abort.
+ * @internal
+ */
+export function isRetryable(
+  policy: ResolvedRetryPolicy,
+  status: number | undefined,
+  err: unknown
+): boolean {
+  if (status !== undefined) return policy.retryableStatuses.includes(status);
+  if (err instanceof TypeError) return true; // network / DNS / CORS etc.
+  const name = err instanceof Error ? err.name : undefined;
+  return name === 'AbortError' || name === 'TimeoutError';
+}
+
+/**
+ * Returns the backoff delay in milliseconds before retry number `attempt + 1`:
+ * `min(maxDelayMs, base * 2^attempt)`, randomized per the jitter strategy.
+ * @internal
+ */
+export function backoffMs(policy: ResolvedRetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  switch (policy.jitter) {
+    case 'none':
+      return delay;
+    case 'full':
+      return delay * Math.random();
+    default:
+      return delay * (0.5 + Math.random() * 0.5);
+  }
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds.
+ * Returns undefined when absent or unparseable; dates in the past yield 0.
+ * @internal
+ */
+export function parseRetryAfterMs(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (value == null || value.trim() === '') return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decides whether a failed attempt is retried and returns the delay before the next attempt,
+ * or undefined to give up. `ctx.delayMs` is the backoff (raised to `Retry-After` when larger).
+ * @internal
+ */
+export function nextRetryDelayMs(
+  policy: ResolvedRetryPolicy,
+  ctx: Omit<RetryContext, 'retryable' | 'delayMs'>,
+  attemptsLeft: boolean
+): number | undefined {
+  if (!attemptsLeft) return undefined;
+  const { retryAfterMs } = ctx;
+  if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) return undefined;
+  const delayMs = Math.max(backoffMs(policy, ctx.attempt - 1), retryAfterMs ?? 0);
+  if (policy.maxElapsedMs !== undefined && ctx.elapsedMs + delayMs > policy.maxElapsedMs) {
+    return undefined;
+  }
+  const retryable = isRetryable(policy, ctx.status, ctx.error);
+  const retry = policy.shouldRetry ? policy.shouldRetry({ ...ctx, delayMs, retryable }) : retryable;
+  return retry ? delayMs : undefined;
+}
+
+/**
+ * Records how many attempts were made and how long was spent waiting between them on the error
+ * thrown by `doRequest`. `HttpError` declares these fields; other errors (network, timeout)
+ * get the same properties when they are extensible. Non-Error values are wrapped in an Error.
+ * @internal
+ */
+export function withRetryInfo(err: unknown, attempts: number, totalWaitMs: number): Error {
+  const error = err instanceof Error ? err : new Error(String(err));
+  if (Object.isExtensible(error)) {
+    Object.assign(error, { attempts, totalWaitMs });
+  }
+  return error;
+}
+
+/**
+ * Waits `ms` milliseconds. Rejects with `signal.reason` as soon as `signal` aborts.
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -12,6 +12,8 @@ import {
 import { ValidationError } from './errors.js';
 import { validateCountry, validateSort, validateReviewsPage } from './validate.js';
 import { reviewsFeedSchema } from './schemas.js';
+import { endpointUrl } from './endpoints.js';
+import { traced } from './metrics.js';
 
 /**
  * Retrieves user reviews for an app.
@@ -40,6 +42,10 @@ import { reviewsFeedSchema } from './schemas.js';
  * ```
  */
 export async function reviews(options: ReviewsOptions): Promise<Review[]> {
+  return traced('reviews', () => fetchReviews(options));
+}
+
+async function fetchReviews(options: ReviewsOptions): Promise<Review[]> {
   validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
 
   const {
@@ -47,6 +53,7 @@ export async function reviews(options: ReviewsOptions): Promise<Review[]> {
     page = 1,
     sort = sortConstants.RECENT,
     country = DEFAULT_COUNTRY,
+    includeRaw = false,
     requestOptions,
   } = options;
   let { id } = options;
@@ -70,7 +77,11 @@ export async function reviews(options: ReviewsOptions): Promise<Review[]> {
     throw new ValidationError('Either id or appId is required', 'id/appId');
   }
 
-  const url = `https://itunes.apple.com/${country}/rss/customerreviews/page=${page}/id=${id}/sortby=${sort}/json`;
+  const url = endpointUrl(
+    'rss',
+    `/${country}/rss/customerreviews/page=${page}/id=${id}/sortby=${sort}/json`,
+    requestOptions
+  );
 
   const body = await doRequest(url, requestOptions);
 
@@ -99,6 +110,7 @@ export async function reviews(options: ReviewsOptions): Promise<Review[]> {
       title: entry.title?.label ?? '',
       text: entry.content?.label ?? '',
       updated: entry.updated?.label ?? '',
+      ...(includeRaw && { raw: entry }),
     };
   });
 }
@@ -50,6 +50,15 @@ export const iTunesAppResponseSchema = z.looseObject({
   ipadScreenshotUrls: z.array(z.string()).optional(),
   appletvScreenshotUrls: z.array(z.string()).optional(),
   supportedDevices: z.array(z.string()).optional(),
+  formattedPrice: z.string().optional(),
+  sellerName: z.string().optional(),
+  trackContentRating: z.string().optional(),
+  advisories: z.array(z.string()).optional(),
+  features: z.array(z.string()).optional(),
+  isGameCenterEnabled: z.boolean().optional(),
+  artworkUrl60: z.string().optional(),
+  isVppDeviceBasedLicensingEnabled: z.boolean().optional(),
+  trackCensoredName: z.string().optional(),
 });
 
 export type ITunesAppResponse = z.infer<typeof iTunesAppResponseSchema>;
@@ -73,70 +82,71 @@ export type ITunesLookupResponse = z.infer<typeof iTunesLookupResponseSchema>;
  * Minimal structure for validation; used by `list()` when fullDetail is false.
  * Full entries include im:name, im:image, link, im:price, summary, im:artist,
  * category, im:releaseDate. Parsed in list.ts. `im:image` and `link` accept
- * single object or array (Apple varies response format).
+ * single object or array (Apple varies response format). Nested objects are loose so
+ * `includeRaw` keeps fields this schema does not list.
  */
 export const rssFeedEntrySchema = z.looseObject({
   id: z
-    .object({
+    .looseObject({
       attributes: z
-        .object({
+        .looseObject({
           'im:id': z.string().optional(),
           'im:bundleId': z.string().optional(),
         })
         .optional(),
     })
     .optional(),
-  'im:name': z.object({ label: z.string().optional() }).optional(),
+  'im:name': z.looseObject({ label: z.string().optional() }).optional(),
   'im:image': z
     .union([
-      z.object({ label: z.string().optional() }),
-      z.array(z.object({ label: z.string().optional() })),
+      z.looseObject({ label: z.string().optional() }),
+      z.array(z.looseObject({ label: z.string().optional() })),
     ])
     .optional(),
   link: z
     .union([
-      z.object({
+      z.looseObject({
         attributes: z
-          .object({ href: z.string().optional(), rel: z.string().optional() })
+          .looseObject({ href: z.string().optional(), rel: z.string().optional() })
           .optional(),
       }),
       z.array(
-        z.object({
+        z.looseObject({
           attributes: z
-            .object({ href: z.string().optional(), rel: z.string().optional() })
+            .looseObject({ href: z.string().optional(), rel: z.string().optional() })
             .optional(),
         })
       ),
     ])
     .optional(),
   'im:price': z
-    .object({
+    .looseObject({
       attributes: z
-        .object({
+        .looseObject({
           amount: z.union([z.string(), z.number()]).optional(),
           currency: z.string().optional(),
         })
         .optional(),
     })
     .optional(),
-  summary: z.object({ label: z.string().optional() }).optional(),
+  summary: z.looseObject({ label: z.string().optional() }).optional(),
   'im:artist': z
-    .object({
+    .looseObject({
       label: z.string().optional(),
-      attributes: z.object({ href: z.string().optional() }).optional(),
+      attributes: z.looseObject({ href: z.string().optional() }).optional(),
     })
     .optional(),
   category: z
-    .object({
+    .looseObject({
       attributes: z
-        .object({
+        .looseObject({
           label: z.string().optional(),
           'im:id': z.string().optional(),
         })
         .optional(),
     })
     .optional(),
-  'im:releaseDate': z.object({ label: z.string().optional() }).optional(),
+  'im:releaseDate': z.looseObject({ label: z.string().optional() }).optional(),
 });
 
 export type RssFeedEntry = z.infer<typeof rssFeedEntrySchema>;
@@ -163,49 +173,50 @@ export type RssFeed = z.infer<typeof rssFeedSchema>;
  *
  * Validates a single review from `https://itunes.apple.com/.../rss/customerreviews/id=.../page=`.
  * Used by `reviews()`. Nested structure: author, im:version, im:rating, title, content, etc.
+ * Nested objects are loose so `includeRaw` keeps fields this schema does not list.
  */
-export const reviewEntrySchema = z.object({
+export const reviewEntrySchema = z.looseObject({
   author: z
-    .object({
+    .looseObject({
       uri: z
-        .object({
+        .looseObject({
           label: z.string().optional(),
         })
         .optional(),
       name: z
-        .object({
+        .looseObject({
           label: z.string().optional(),
         })
         .optional(),
     })
     .optional(),
   'im:version': z
-    .object({
+    .looseObject({
       label: z.string().optional(),
     })
     .optional(),
   'im:rating': z
-    .object({
+    .looseObject({
       label: z.string().optional(),
     })
     .optional(),
   title: z
-    .object({
+    .looseObject({
       label: z.string().optional(),
     })
     .optional(),
   content: z
-    .object({
+    .looseObject({
       label: z.string().optional(),
     })
     .optional(),
   id: z
-    .object({
+    .looseObject({
       label: z.string().optional(),
     })
     .optional(),
   updated: z
-    .object({
+    .looseObject({
       label: z.string().optional(),
     })
     .optional(),
@@ -256,3 +267,27 @@ export const suggestResponseSchema = z.object({
 });
 
 export type SuggestResponse = z.infer<typeof suggestResponseSchema>;
+
+/**
+ * Storefront list schema.
+ *
+ * Validates the JSON from Apple's `availableStoreFronts` endpoint: storefront resources with
+ * the country code as `id` and `name`, `defaultLanguageTag`, and `supportedLanguageTags`
+ * attributes. Used by `refreshStorefronts()`.
+ */
+export const storefrontsResponseSchema = z.object({
+  data: z.array(
+    z.looseObject({
+      id: z.string(),
+      attributes: z
+        .looseObject({
+          name: z.string().optional(),
+          defaultLanguageTag: z.string().optional(),
+          supportedLanguageTags: z.array(z.string()).optional(),
+        })
+        .optional(),
+    })
+  ),
+});
+
+export type StorefrontsResponse = z.infer<typeof storefrontsResponseSchema>;
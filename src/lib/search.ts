@@ -5,10 +5,12 @@ import {
   device as deviceConstants,
   ITUNES_API_MAX_LIMIT,
 } from '../types/constants.js';
-import { doRequest, cleanApp, parseAndValidate, isAppRecord } from './common.js';
+import { doRequest, cleanApp, parseAndValidate, isAppRecord, checkLang } from './common.js';
 import { ValidationError } from './errors.js';
 import { validateCountry, validateSearchPagination, validateDevice } from './validate.js';
 import { iTunesLookupResponseSchema, type ITunesAppResponse } from './schemas.js';
+import { endpointUrl } from './endpoints.js';
+import { traced } from './metrics.js';
 
 /**
  * Searches for apps in the App Store.
@@ -48,6 +50,10 @@ export async function search(options: SearchOptions & { idsOnly: true }): Promis
 export async function search(options: SearchOptions & { idsOnly?: false }): Promise<App[]>;
 export async function search(options: SearchOptions): Promise<App[] | number[]>;
 export async function search(options: SearchOptions): Promise<App[] | number[]> {
+  return traced('search', () => searchApps(options));
+}
+
+async function searchApps(options: SearchOptions): Promise<App[] | number[]> {
   const {
     term,
     num = 50,
@@ -56,10 +62,12 @@ export async function search(options: SearchOptions): Promise<App[] | number[]>
     lang,
     device: deviceOption,
     idsOnly,
+    includeRaw = false,
     requestOptions,
   } = options;
 
   validateCountry(country);
+  checkLang(lang, country, requestOptions);
   validateSearchPagination(num, page);
   if (deviceOption != null) validateDevice(deviceOption);
   if (term == null || term === '') {
@@ -84,7 +92,7 @@ export async function search(options: SearchOptions): Promise<App[] | number[]>
     params.set('lang', lang);
   }
 
-  const url = `https://itunes.apple.com/search?${params.toString()}`;
+  const url = endpointUrl('search', `/search?${params.toString()}`, requestOptions);
   const body = await doRequest(url, requestOptions);
 
   const response = parseAndValidate(body, iTunesLookupResponseSchema, 'Search API response');
@@ -105,5 +113,5 @@ export async function search(options: SearchOptions): Promise<App[] | number[]>
   }
 
   // Convert to App objects
-  return paginatedResults.map((result: ITunesAppResponse) => cleanApp(result));
+  return paginatedResults.map((result: ITunesAppResponse) => cleanApp(result, includeRaw));
 }
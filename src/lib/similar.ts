@@ -10,10 +10,12 @@ import {
   lookup,
   resolveAppId,
   wrapResolveAppIdError,
+  checkLang,
 } from './common.js';
 import { validateCountry } from './validate.js';
 import { ValidationError } from './errors.js';
 import { parseSimilarIdsFromHtml, getLinkTypeFromHeadingText } from './parsers.js';
+import { traced } from './metrics.js';
 
 export { getLinkTypeFromHeadingText };
 
@@ -44,7 +46,12 @@ export async function similar(
 export async function similar(
   options: SimilarOptions & { includeLinkType?: false }
 ): Promise<App[]>;
+export async function similar(options: SimilarOptions): Promise<SimilarApp[] | App[]>;
 export async function similar(options: SimilarOptions): Promise<SimilarApp[] | App[]> {
+  return traced('similar', () => fetchSimilar(options));
+}
+
+async function fetchSimilar(options: SimilarOptions): Promise<SimilarApp[] | App[]> {
   validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
 
   const {
@@ -53,8 +60,10 @@ export async function similar(options: SimilarOptions): Promise<SimilarApp[] | A
     lang,
     requestOptions,
     includeLinkType = false,
+    includeRaw = false,
   } = options;
   validateCountry(country);
+  checkLang(lang, country, requestOptions);
   let { id } = options;
 
   // If appId is provided, resolve to id first (lightweight lookup only)
@@ -73,7 +82,7 @@ export async function similar(options: SimilarOptions): Promise<SimilarApp[] | A
   }
 
   // Build URL for main app page (contains similar apps embedded in HTML)
-  const url = appPageUrl(country, id);
+  const url = appPageUrl(country, id, requestOptions);
   const body = await fetchAppPage(url, requestOptions);
   if (body === null) return [];
 
@@ -86,7 +95,7 @@ export async function similar(options: SimilarOptions): Promise<SimilarApp[] | A
 
   // Unique IDs for lookup (preserve order)
   const uniqueIds = [...new Set(entries.map((e) => e.id))];
-  const apps = await lookup(uniqueIds, 'id', country, lang, requestOptions);
+  const apps = await lookup(uniqueIds, 'id', country, lang, requestOptions, includeRaw);
   const appById = new Map<number, App>(apps.map((a) => [a.id, a]));
 
   if (includeLinkType) {
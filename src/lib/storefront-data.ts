@@ -0,0 +1,211 @@
+/**
+ * Built-in storefront registry: display name, currency, languages, and region for every storefront
+ * in `markets`. Store front IDs are read from `markets`, so the two cannot disagree.
+ *
+ * Like `markets`, this is a static snapshot (Apple publishes no official list), so a storefront
+ * change needs a code change and release.
+ */
+import type { Storefront, StorefrontRegion } from '../types/storefront.js';
+import { markets } from '../types/constants.js';
+
+const AFRICA: StorefrontRegion = 'africa-middle-east-india';
+const ASIA: StorefrontRegion = 'asia-pacific';
+const EUROPE: StorefrontRegion = 'europe';
+const LATAM: StorefrontRegion = 'latin-america-caribbean';
+const NORTH_AMERICA: StorefrontRegion = 'us-canada';
+
+const EN = ['en-gb'];
+const EN_ES = ['en-gb', 'es-mx'];
+const ES_EN = ['es-mx', 'en-gb'];
+const FR_EN = ['fr-fr', 'en-gb'];
+const AR_EN = ['ar', 'en-gb'];
+const PT_EN = ['en-gb', 'pt-pt'];
+const EN_RU = ['en-gb', 'ru'];
+
+function storefront(
+  country: string,
+  name: string,
+  currency: string,
+  region: StorefrontRegion,
+  languages: string[]
+): [string, Storefront] {
+  return [
+    country,
+    Object.freeze({
+      country,
+      name,
+      storeFrontId: markets[country]!,
+      currency,
+      languages,
+      defaultLanguage: languages[0]!,
+      region,
+    }),
+  ];
+}
+
+/**
+ * Storefronts keyed by lowercase country code, in `markets` order.
+ * @internal
+ */
+export const STOREFRONTS: Readonly<Record<string, Storefront>> = Object.freeze(
+  Object.fromEntries([
+    storefront('dz', 'Algeria', 'USD', AFRICA, ['ar', 'fr-fr', 'en-gb']),
+    storefront('ao', 'Angola', 'USD', AFRICA, PT_EN),
+    storefront('ai', 'Anguilla', 'USD', LATAM, EN),
+    storefront('ag', 'Antigua and Barbuda', 'USD', LATAM, EN),
+    storefront('ar', 'Argentina', 'USD', LATAM, ES_EN),
+    storefront('am', 'Armenia', 'USD', EUROPE, EN_RU),
+    storefront('au', 'Australia', 'AUD', ASIA, ['en-au']),
+    storefront('at', 'Austria', 'EUR', EUROPE, ['de-de', 'en-gb']),
+    storefront('az', 'Azerbaijan', 'USD', EUROPE, EN_RU),
+    storefront('bs', 'Bahamas', 'USD', LATAM, EN),
+    storefront('bh', 'Bahrain', 'USD', AFRICA, AR_EN),
+    storefront('bb', 'Barbados', 'USD', LATAM, EN),
+    storefront('by', 'Belarus', 'USD', EUROPE, EN_RU),
+    storefront('be', 'Belgium', 'EUR', EUROPE, ['nl-nl', 'fr-fr', 'en-gb']),
+    storefront('bz', 'Belize', 'USD', LATAM, EN_ES),
+    storefront('bj', 'Benin', 'USD', AFRICA, FR_EN),
+    storefront('bm', 'Bermuda', 'USD', LATAM, EN),
+    storefront('bo', 'Bolivia', 'USD', LATAM, ES_EN),
+    storefront('bw', 'Botswana', 'USD', AFRICA, EN),
+    storefront('br', 'Brazil', 'BRL', LATAM, ['pt-br', 'en-gb']),
+    storefront('vg', 'British Virgin Islands', 'USD', LATAM, EN),
+    storefront('bn', 'Brunei Darussalam', 'USD', ASIA, EN),
+    storefront('bg', 'Bulgaria', 'EUR', EUROPE, ['en-gb', 'bg']),
+    storefront('bf', 'Burkina Faso', 'USD', AFRICA, FR_EN),
+    storefront('ca', 'Canada', 'CAD', NORTH_AMERICA, ['en-ca', 'fr-ca']),
+    storefront('ky', 'Cayman Islands', 'USD', LATAM, EN),
+    storefront('td', 'Chad', 'USD', AFRICA, FR_EN),
+    storefront('cl', 'Chile', 'CLP', LATAM, ES_EN),
+    storefront('cn', 'China mainland', 'CNY', ASIA, ['zh-cn', 'en-gb']),
+    storefront('co', 'Colombia', 'COP', LATAM, ES_EN),
+    storefront('cr', 'Costa Rica', 'USD', LATAM, ES_EN),
+    storefront('ci', "Côte d'Ivoire", 'USD', AFRICA, FR_EN),
+    storefront('hr', 'Croatia', 'EUR', EUROPE, ['hr', 'en-gb']),
+    storefront('cy', 'Cyprus', 'EUR', EUROPE, ['en-gb', 'el']),
+    storefront('cz', 'Czechia', 'CZK', EUROPE, ['cs', 'en-gb']),
+    storefront('dk', 'Denmark', 'DKK', EUROPE, ['da', 'en-gb']),
+    storefront('dm', 'Dominica', 'USD', LATAM, EN),
+    storefront('do', 'Dominican Republic', 'USD', LATAM, ES_EN),
+    storefront('ec', 'Ecuador', 'USD', LATAM, ES_EN),
+    storefront('eg', 'Egypt', 'EGP', AFRICA, AR_EN),
+    storefront('sv', 'El Salvador', 'USD', LATAM, ES_EN),
+    storefront('ee', 'Estonia', 'EUR', EUROPE, ['et', 'en-gb', 'ru']),
+    storefront('fj', 'Fiji', 'USD', ASIA, EN),
+    storefront('fi', 'Finland', 'EUR', EUROPE, ['fi', 'en-gb']),
+    storefront('fr', 'France', 'EUR', EUROPE, FR_EN),
+    storefront('gm', 'Gambia', 'USD', AFRICA, EN),
+    storefront('de', 'Germany', 'EUR', EUROPE, ['de-de', 'en-gb']),
+    storefront('gh', 'Ghana', 'USD', AFRICA, EN),
+    storefront('gr', 'Greece', 'EUR', EUROPE, ['el', 'en-gb']),
+    storefront('gd', 'Grenada', 'USD', LATAM, EN),
+    storefront('gt', 'Guatemala', 'USD', LATAM, ES_EN),
+    storefront('gw', 'Guinea-Bissau', 'USD', AFRICA, PT_EN),
+    storefront('gy', 'Guyana', 'USD', LATAM, EN),
+    storefront('hn', 'Honduras', 'USD', LATAM, ES_EN),
+    storefront('hk', 'Hong Kong', 'HKD', ASIA, ['zh-hk', 'en-gb', 'zh-tw']),
+    storefront('hu', 'Hungary', 'HUF', EUROPE, ['hu', 'en-gb']),
+    storefront('is', 'Iceland', 'USD', EUROPE, EN),
+    storefront('in', 'India', 'INR', AFRICA, ['en-gb', 'hi']),
+    storefront('id', 'Indonesia', 'IDR', ASIA, ['id', 'en-gb']),
+    storefront('ie', 'Ireland', 'EUR', EUROPE, EN),
+    storefront('il', 'Israel', 'ILS', AFRICA, ['he', 'en-gb']),
+    storefront('it', 'Italy', 'EUR', EUROPE, ['it', 'en-gb']),
+    storefront('jm', 'Jamaica', 'USD', LATAM, EN),
+    storefront('jp', 'Japan', 'JPY', ASIA, ['ja', 'en-us']),
+    storefront('jo', 'Jordan', 'USD', AFRICA, AR_EN),
+    storefront('kz', 'Kazakhstan', 'KZT', EUROPE, ['ru', 'en-gb']),
+    storefront('ke', 'Kenya', 'USD', AFRICA, EN),
+    storefront('kr', 'Republic of Korea', 'KRW', ASIA, ['ko', 'en-gb']),
+    storefront('kw', 'Kuwait', 'USD', AFRICA, AR_EN),
+    storefront('lv', 'Latvia', 'EUR', EUROPE, ['lv', 'en-gb', 'ru']),
+    storefront('lb', 'Lebanon', 'USD', AFRICA, ['ar', 'en-gb', 'fr-fr']),
+    storefront('lt', 'Lithuania', 'EUR', EUROPE, ['lt', 'en-gb', 'ru']),
+    storefront('lu', 'Luxembourg', 'EUR', EUROPE, ['fr-fr', 'de-de', 'en-gb']),
+    storefront('mo', 'Macao', 'USD', ASIA, ['zh-hk', 'zh-tw', 'en-gb']),
+    storefront('mk', 'North Macedonia', 'USD', EUROPE, EN),
+    storefront('mg', 'Madagascar', 'USD', AFRICA, FR_EN),
+    storefront('mw', 'Malawi', 'USD', AFRICA, EN),
+    storefront('my', 'Malaysia', 'MYR', ASIA, ['en-gb', 'ms']),
+    storefront('ml', 'Mali', 'USD', AFRICA, FR_EN),
+    storefront('mt', 'Malta', 'EUR', EUROPE, EN),
+    storefront('mr', 'Mauritania', 'USD', AFRICA, ['ar', 'fr-fr', 'en-gb']),
+    storefront('mu', 'Mauritius', 'USD', AFRICA, ['en-gb', 'fr-fr']),
+    storefront('mx', 'Mexico', 'MXN', LATAM, ES_EN),
+    storefront('fm', 'Micronesia', 'USD', ASIA, EN),
+    storefront('md', 'Moldova', 'USD', EUROPE, ['en-gb', 'ro', 'ru']),
+    storefront('mn', 'Mongolia', 'USD', ASIA, EN),
+    storefront('ms', 'Montserrat', 'USD', LATAM, EN),
+    storefront('mz', 'Mozambique', 'USD', AFRICA, PT_EN),
+    storefront('na', 'Namibia', 'USD', AFRICA, EN),
+    storefront('np', 'Nepal', 'USD', ASIA, EN),
+    storefront('nl', 'Netherlands', 'EUR', EUROPE, ['nl-nl', 'en-gb']),
+    storefront('nz', 'New Zealand', 'NZD', ASIA, EN),
+    storefront('ni', 'Nicaragua', 'USD', LATAM, ES_EN),
+    storefront('ne', 'Niger', 'USD', AFRICA, FR_EN),
+    storefront('ng', 'Nigeria', 'NGN', AFRICA, EN),
+    storefront('no', 'Norway', 'NOK', EUROPE, ['nb', 'en-gb']),
+    storefront('om', 'Oman', 'USD', AFRICA, AR_EN),
+    storefront('pk', 'Pakistan', 'PKR', ASIA, EN),
+    storefront('pw', 'Palau', 'USD', ASIA, EN),
+    storefront('pa', 'Panama', 'USD', LATAM, ES_EN),
+    storefront('pg', 'Papua New Guinea', 'USD', ASIA, EN),
+    storefront('py', 'Paraguay', 'USD', LATAM, ES_EN),
+    storefront('pe', 'Peru', 'PEN', LATAM, ES_EN),
+    storefront('ph', 'Philippines', 'PHP', ASIA, EN),
+    storefront('pl', 'Poland', 'PLN', EUROPE, ['pl', 'en-gb']),
+    storefront('pt', 'Portugal', 'EUR', EUROPE, ['pt-pt', 'en-gb']),
+    storefront('qa', 'Qatar', 'QAR', AFRICA, AR_EN),
+    storefront('ro', 'Romania', 'RON', EUROPE, ['ro', 'en-gb']),
+    storefront('ru', 'Russia', 'RUB', EUROPE, ['ru', 'en-gb', 'uk']),
+    storefront('kn', 'St. Kitts and Nevis', 'USD', LATAM, EN),
+    storefront('lc', 'St. Lucia', 'USD', LATAM, EN),
+    storefront('vc', 'St. Vincent and the Grenadines', 'USD', LATAM, EN),
+    storefront('st', 'São Tomé and Príncipe', 'USD', AFRICA, PT_EN),
+    storefront('sa', 'Saudi Arabia', 'SAR', AFRICA, AR_EN),
+    storefront('sn', 'Senegal', 'USD', AFRICA, FR_EN),
+    storefront('sc', 'Seychelles', 'USD', AFRICA, ['en-gb', 'fr-fr']),
+    storefront('sl', 'Sierra Leone', 'USD', AFRICA, EN),
+    storefront('sg', 'Singapore', 'SGD', ASIA, ['en-gb', 'zh-cn']),
+    storefront('sk', 'Slovakia', 'EUR', EUROPE, ['sk', 'en-gb']),
+    storefront('si', 'Slovenia', 'EUR', EUROPE, ['sl', 'en-gb']),
+    storefront('sb', 'Solomon Islands', 'USD', ASIA, EN),
+    storefront('za', 'South Africa', 'ZAR', AFRICA, EN),
+    storefront('es', 'Spain', 'EUR', EUROPE, ['es-es', 'ca', 'en-gb']),
+    storefront('lk', 'Sri Lanka', 'USD', ASIA, EN),
+    storefront('sr', 'Suriname', 'USD', LATAM, ['en-gb', 'nl-nl']),
+    storefront('sz', 'Eswatini', 'USD', AFRICA, EN),
+    storefront('se', 'Sweden', 'SEK', EUROPE, ['sv', 'en-gb']),
+    storefront('ch', 'Switzerland', 'CHF', EUROPE, ['de-ch', 'fr-fr', 'it', 'en-gb']),
+    storefront('tw', 'Taiwan', 'TWD', ASIA, ['zh-tw', 'en-gb']),
+    storefront('tj', 'Tajikistan', 'USD', EUROPE, EN_RU),
+    storefront('tz', 'Tanzania', 'TZS', AFRICA, EN),
+    storefront('th', 'Thailand', 'THB', ASIA, ['th', 'en-gb']),
+    storefront('tn', 'Tunisia', 'USD', AFRICA, ['ar', 'fr-fr', 'en-gb']),
+    storefront('tr', 'Türkiye', 'TRY', EUROPE, ['tr', 'en-gb']),
+    storefront('tm', 'Turkmenistan', 'USD', EUROPE, EN_RU),
+    storefront('tc', 'Turks and Caicos Islands', 'USD', LATAM, EN),
+    storefront('ug', 'Uganda', 'USD', AFRICA, EN),
+    storefront('ua', 'Ukraine', 'USD', EUROPE, ['uk', 'en-gb', 'ru']),
+    storefront('ae', 'United Arab Emirates', 'AED', AFRICA, ['en-gb', 'ar']),
+    storefront('gb', 'United Kingdom', 'GBP', EUROPE, EN),
+    storefront('us', 'United States', 'USD', NORTH_AMERICA, [
+      'en-us',
+      'es-mx',
+      'ar',
+      'fr-fr',
+      'ko',
+      'pt-br',
+      'ru',
+      'vi',
+      'zh-cn',
+      'zh-tw',
+    ]),
+    storefront('uy', 'Uruguay', 'USD', LATAM, ES_EN),
+    storefront('uz', 'Uzbekistan', 'USD', EUROPE, EN_RU),
+    storefront('ve', 'Venezuela', 'USD', LATAM, ES_EN),
+    storefront('vn', 'Vietnam', 'VND', ASIA, ['vi', 'en-gb']),
+    storefront('ye', 'Yemen', 'USD', AFRICA, AR_EN),
+    storefront('zw', 'Zimbabwe', 'USD', AFRICA, EN),
+  ])
+);
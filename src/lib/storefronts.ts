@@ -0,0 +1,92 @@
+import type { Storefront } from '../types/storefront.js';
+import type { RefreshStorefrontsOptions } from '../types/options.js';
+import { doRequest, parseAndValidate } from './common.js';
+import { endpointUrl } from './endpoints.js';
+import { getLogger } from './logger.js';
+import { storefrontsResponseSchema } from './schemas.js';
+import { STOREFRONTS } from './storefront-data.js';
+import { traced } from './metrics.js';
+
+/**
+ * Returns metadata for every App Store storefront in {@link markets}: display name, store front ID,
+ * currency, supported and default languages, and region.
+ *
+ * This is the built-in registry (no request), the same data `lang` is checked against. Like
+ * {@link markets} it is a static snapshot: Apple publishes no documented storefront metadata API.
+ * Use {@link refreshStorefronts} for the names and languages Apple currently lists.
+ *
+ * @returns One {@link Storefront} per storefront, in {@link markets} order
+ *
+ * @example
+ * ```typescript
+ * const all = storefronts();
+ * const euro = all.filter((s) => s.currency === 'EUR').map((s) => s.country);
+ * ```
+ */
+export function storefronts(): Storefront[] {
+  return Object.values(STOREFRONTS).map((s) => ({ ...s, languages: [...s.languages] }));
+}
+
+/**
+ * Fetches Apple's `availableStoreFronts` list and returns the registry of {@link storefronts} with
+ * the names and languages it lists. Store front IDs, currencies, and regions still come from the
+ * registry, and the registry's own data (used to check `lang`) is not changed.
+ *
+ * The endpoint is undocumented, so its response is validated against a schema. Storefronts Apple
+ * lists that are not in {@link markets} cannot be used with the `country` option, so they are
+ * skipped and reported to the configured logger.
+ *
+ * @param options - `requestOptions` for the request
+ * @returns Promise resolving to one {@link Storefront} per storefront, in Apple's order
+ * @throws {HttpError} on non-OK HTTP response from the storefronts endpoint
+ * @throws {ValidationError} if the storefronts response fails schema validation (field: `'response'`)
+ *
+ * @example
+ * ```typescript
+ * const latest = await refreshStorefronts();
+ * const french = latest.filter((s) => s.languages.some((tag) => tag.startsWith('fr')));
+ * ```
+ */
+export async function refreshStorefronts(
+  options: RefreshStorefrontsOptions = {}
+): Promise<Storefront[]> {
+  return traced('refreshStorefronts', () => fetchStorefronts(options));
+}
+
+async function fetchStorefronts({
+  requestOptions,
+}: RefreshStorefrontsOptions): Promise<Storefront[]> {
+  const url = endpointUrl(
+    'storefronts',
+    '/WebObjects/MZStore.woa/wa/availableStoreFronts',
+    requestOptions
+  );
+  const body = await doRequest(url, requestOptions);
+  const { data } = parseAndValidate(body, storefrontsResponseSchema, 'Storefronts API response');
+
+  const result: Storefront[] = [];
+  const skipped: string[] = [];
+  for (const { id, attributes } of data) {
+    const known = STOREFRONTS[id.toLowerCase()];
+    if (known === undefined) {
+      skipped.push(id);
+      continue;
+    }
+    const supported = attributes?.supportedLanguageTags?.map((tag) => tag.toLowerCase()) ?? [];
+    const languages = supported.length > 0 ? supported : known.languages;
+    const defaultLanguage = attributes?.defaultLanguageTag?.toLowerCase() ?? languages[0]!;
+    result.push({
+      ...known,
+      name: attributes?.name ?? known.name,
+      languages: [defaultLanguage, ...languages.filter((tag) => tag !== defaultLanguage)],
+      defaultLanguage,
+    });
+  }
+  if (skipped.length > 0) {
+    getLogger(requestOptions).warn(
+      `refreshStorefronts(): skipped ${skipped.length} storefronts missing from markets`,
+      { storefronts: skipped }
+    );
+  }
+  return result;
+}
@@ -2,8 +2,10 @@ import { XMLParser } from 'fast-xml-parser';
 import type { Suggestion } from '../types/suggest.js';
 import type { SuggestOptions } from '../types/options.js';
 import { doRequest, ensureArray } from './common.js';
-import { ValidationError } from './errors.js';
+import { SchemaDriftError, ValidationError } from './errors.js';
 import { suggestResponseSchema } from './schemas.js';
+import { endpointUrl } from './endpoints.js';
+import { traced } from './metrics.js';
 
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
@@ -16,6 +18,7 @@ const xmlParser = new XMLParser({
  * @returns Promise resolving to array of suggestions
  * @throws {ValidationError} if `term` is missing or empty
  * @throws {HttpError} on non-OK HTTP response from the Apple hints endpoint
+ * @throws {SchemaDriftError} if the hints response no longer matches the expected plist shape
  *
  * @example
  * ```typescript
@@ -24,6 +27,10 @@ const xmlParser = new XMLParser({
  * ```
  */
 export async function suggest(options: SuggestOptions): Promise<Suggestion[]> {
+  return traced('suggest', () => fetchSuggestions(options));
+}
+
+async function fetchSuggestions(options: SuggestOptions): Promise<Suggestion[]> {
   const { term, requestOptions } = options;
 
   if (term == null || term === '') {
@@ -31,7 +38,11 @@ export async function suggest(options: SuggestOptions): Promise<Suggestion[]> {
   }
 
   const params = new URLSearchParams({ clientApplication: 'Software', term });
-  const url = `https://search.itunes.apple.com/WebObjects/MZSearchHints.woa/wa/hints?${params.toString()}`;
+  const url = endpointUrl(
+    'hints',
+    `/WebObjects/MZSearchHints.woa/wa/hints?${params.toString()}`,
+    requestOptions
+  );
 
   const body = await doRequest(url, requestOptions);
 
@@ -41,9 +52,9 @@ export async function suggest(options: SuggestOptions): Promise<Suggestion[]> {
   const validationResult = suggestResponseSchema.safeParse(parsedData);
 
   if (!validationResult.success) {
-    throw new ValidationError(
+    throw new SchemaDriftError(
       `Suggest API response validation failed: ${validationResult.error.message}`,
-      'response'
+      validationResult.error.issues
     );
   }
 
@@ -14,6 +14,7 @@ import {
   markets,
 } from '../types/constants.js';
 import { ValidationError } from './errors.js';
+import { STOREFRONTS } from './storefront-data.js';
 
 const validCountries = new Set(Object.keys(markets));
 const validCollections = new Set<string>(Object.values(collection));
@@ -35,6 +36,28 @@ export function validateCountry(country: string): void {
   }
 }
 
+/**
+ * Returns whether `lang` is a language the `country` storefront supports (see `storefronts()`).
+ * Tags are compared case-insensitively with `-` or `_` separators, and only the language subtag
+ * must match: `en`, `en-us`, and `en_GB` are all supported for `gb`. Unknown countries return
+ * `true`; call after {@link validateCountry}.
+ *
+ * Unlike the validators above this does not throw: iTunes accepts any `lang` for any storefront.
+ *
+ * @param lang - Language tag (e.g. "en-gb", "ja_jp")
+ * @param country - Two-letter country code of the storefront
+ */
+export function isLangSupported(lang: string, country: string): boolean {
+  const storefront = STOREFRONTS[country.toLowerCase()];
+  if (storefront === undefined) return true;
+  const language = primaryLanguage(lang);
+  return storefront.languages.some((tag) => primaryLanguage(tag) === language);
+}
+
+function primaryLanguage(tag: string): string {
+  return tag.toLowerCase().split(/[-_]/)[0]!;
+}
+
 /**
  * Validates that `collection` is a supported collection value.
  * Use before interpolating collection into list RSS URLs.
@@ -142,3 +165,30 @@ export function validateSearchPagination(num: number, page: number): void {
     throw new ValidationError('page must be a positive integer', 'page');
   }
 }
+
+/**
+ * Validates `chunkSize` for batch lookups (IDs per lookup request).
+ *
+ * @param chunkSize - IDs per request (1 to ITUNES_API_MAX_LIMIT)
+ * @throws {ValidationError} with field "chunkSize" if not an integer in range
+ */
+export function validateChunkSize(chunkSize: number): void {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > ITUNES_API_MAX_LIMIT) {
+    throw new ValidationError(
+      `chunkSize must be an integer between 1 and ${ITUNES_API_MAX_LIMIT}`,
+      'chunkSize'
+    );
+  }
+}
+
+/**
+ * Validates `concurrency` (maximum requests in flight) for batch operations.
+ *
+ * @param concurrency - Must be a positive integer
+ * @throws {ValidationError} with field "concurrency" if invalid
+ */
+export function validateConcurrency(concurrency: number): void {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ValidationError('concurrency must be a positive integer', 'concurrency');
+  }
+}
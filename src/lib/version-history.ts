@@ -12,6 +12,7 @@ import {
 import { validateCountry } from './validate.js';
 import { ValidationError } from './errors.js';
 import { parseVersionHistoryFromHtml } from './parsers.js';
+import { traced } from './metrics.js';
 
 /**
  * Retrieves version history for an app.
@@ -31,6 +32,10 @@ import { parseVersionHistoryFromHtml } from './parsers.js';
  * ```
  */
 export async function versionHistory(options: VersionHistoryOptions): Promise<VersionHistory[]> {
+  return traced('versionHistory', () => fetchVersionHistory(options));
+}
+
+async function fetchVersionHistory(options: VersionHistoryOptions): Promise<VersionHistory[]> {
   validateRequiredField(options, ['id', 'appId'], 'Either id or appId is required');
 
   const { appId, country = DEFAULT_COUNTRY, requestOptions } = options;
@@ -49,7 +54,7 @@ export async function versionHistory(options: VersionHistoryOptions): Promise<Ve
     throw new ValidationError('Either id or appId is required', 'id/appId');
   }
 
-  const url = appPageUrl(country, id);
+  const url = appPageUrl(country, id, requestOptions);
   const appPageBody = await fetchAppPage(url, requestOptions);
   if (appPageBody === null) return [];
 
@@ -0,0 +1,17 @@
+/**
+ * @davidshq/app-store-scraper/testing
+ *
+ * Test kit for code that uses this library: a local mock App Store server seeded from an
+ * in-memory catalog, so `app`, `list`, `reviews`, `similar`, and the other methods can run
+ * end-to-end offline, including injected 429/503/404 responses.
+ *
+ * @packageDocumentation
+ */
+export { createMockAppStore } from './server.js';
+export type {
+  MockApp,
+  MockAppStore,
+  MockAppStoreOptions,
+  MockFailure,
+  MockRequest,
+} from '../types/testing.js';
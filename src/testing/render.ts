@@ -0,0 +1,193 @@
+/**
+ * Response bodies for the mock App Store, in the formats Apple serves:
+ * iTunes lookup/search JSON, RSS JSON feeds, MZSearchHints plist XML, and the
+ * customer-reviews and apps.apple.com HTML pages (using the markup the parsers select).
+ */
+import type { RatingHistogram } from '../types/app.js';
+import type { MockApp } from '../types/testing.js';
+
+/** Reviews per customer reviews feed page, as on the live feed. */
+export const REVIEWS_PAGE_SIZE = 50;
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
+
+function appPageHref(country: string, id: number): string {
+  return `https://apps.apple.com/${country}/app/id${id}`;
+}
+
+function developerHref(country: string, developerId: number | undefined): string | undefined {
+  return developerId != null
+    ? `https://apps.apple.com/${country}/developer/id${developerId}`
+    : undefined;
+}
+
+/** iTunes lookup/search result for an app. */
+function lookupRecord(app: MockApp, country: string): Record<string, unknown> {
+  return {
+    wrapperType: 'software',
+    kind: 'software',
+    trackId: app.id,
+    bundleId: app.appId,
+    trackName: app.title,
+    trackViewUrl: appPageHref(country, app.id),
+    description: app.description,
+    artworkUrl512: app.icon,
+    genres: app.genre != null ? [app.genre] : [],
+    genreIds: app.genreId != null ? [String(app.genreId)] : [],
+    primaryGenreName: app.genre,
+    primaryGenreId: app.genreId,
+    releaseDate: app.released,
+    currentVersionReleaseDate: app.updated,
+    version: app.version,
+    price: app.price ?? 0,
+    currency: app.currency ?? 'USD',
+    artistId: app.developerId,
+    artistName: app.developer,
+    artistViewUrl: developerHref(country, app.developerId),
+    averageUserRating: app.score,
+    userRatingCount: app.reviews,
+    screenshotUrls: app.screenshotsOnPageOnly ? [] : (app.screenshots ?? []),
+    ipadScreenshotUrls: [],
+    appletvScreenshotUrls: [],
+  };
+}
+
+/**
+ * Lookup/search response. A developer match contributes an artist record followed by its apps,
+ * as the live lookup API does for `id=<artistId>&entity=software`.
+ */
+export function renderLookup(
+  results: Array<MockApp | { artistId: number; artistName: string }>,
+  country: string
+): string {
+  const records = results.map((r) =>
+    'appId' in r
+      ? lookupRecord(r, country)
+      : { wrapperType: 'artist', artistType: 'Software Artist', ...r }
+  );
+  return JSON.stringify({ resultCount: records.length, results: records });
+}
+
+/** RSS chart feed (`/rss/<collection>/.../json`). */
+export function renderChart(apps: MockApp[], country: string): string {
+  const entry = apps.map((app) => ({
+    id: {
+      label: appPageHref(country, app.id),
+      attributes: { 'im:id': String(app.id), 'im:bundleId': app.appId },
+    },
+    'im:name': { label: app.title },
+    'im:image': app.icon != null ? [{ label: app.icon }] : [],
+    link: [{ attributes: { rel: 'alternate', href: appPageHref(country, app.id) } }],
+    'im:price': { attributes: { amount: String(app.price ?? 0), currency: app.currency ?? 'USD' } },
+    summary: { label: app.description ?? '' },
+    'im:artist': {
+      label: app.developer ?? '',
+      attributes: { href: developerHref(country, app.developerId) },
+    },
+    category: { attributes: { label: app.genre ?? '', 'im:id': String(app.genreId ?? 0) } },
+    'im:releaseDate': { label: app.released ?? '' },
+  }));
+  return JSON.stringify({ feed: { entry } });
+}
+
+/** Customer reviews feed page: an app metadata entry (no author) followed by the page's reviews. */
+export function renderReviews(app: MockApp, page: number): string {
+  const start = (page - 1) * REVIEWS_PAGE_SIZE;
+  const reviews = (app.customerReviews ?? []).slice(start, start + REVIEWS_PAGE_SIZE);
+  if (reviews.length === 0) return JSON.stringify({ feed: {} });
+  const entry = [
+    { id: { label: String(app.id) }, title: { label: app.title } },
+    ...reviews.map((review) => ({
+      author: { uri: { label: review.userUrl }, name: { label: review.userName } },
+      'im:version': { label: review.version },
+      'im:rating': { label: String(review.score) },
+      title: { label: review.title },
+      content: { label: review.text },
+      id: { label: review.id },
+      updated: { label: review.updated },
+    })),
+  ];
+  return JSON.stringify({ feed: { entry } });
+}
+
+/** Customer-reviews HTML page with the total and one labelled row per star (empty without a histogram). */
+export function renderRatings(histogram: RatingHistogram | undefined): string {
+  if (histogram == null) return '';
+  const total = histogram[1] + histogram[2] + histogram[3] + histogram[4] + histogram[5];
+  const rows = ([5, 4, 3, 2, 1] as const)
+    .map(
+      (star) =>
+        `<div class="vote" aria-label="${star} stars"><span class="total">${histogram[star]}</span></div>`
+    )
+    .join('\n');
+  return `<html><body>
+<div class="rating-count">${total} Ratings</div>
+${rows}
+</body></html>`;
+}
+
+/** MZSearchHints plist with the given terms. */
+export function renderHints(terms: string[]): string {
+  const strings = terms.map((t) => `<string>${escapeHtml(t)}</string>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0"><dict><key>title</key><string>Suggestions</string><key>hints</key><array>${strings}</array></dict></plist>`;
+}
+
+/** apps.apple.com app page: screenshots shelf, similar apps section, privacy and version history dialogs. */
+export function renderAppPage(app: MockApp, country: string): string {
+  const screenshots = (app.screenshots ?? [])
+    .map(
+      (src) =>
+        `<li><picture><source type="image/webp" srcset="${escapeHtml(src)} 392w"></source></picture></li>`
+    )
+    .join('');
+  const similar = (app.similarIds ?? [])
+    .map((id) => `<a href="${appPageHref(country, id)}">App ${id}</a>`)
+    .join('');
+  const versions = (app.versionHistory ?? [])
+    .map(
+      (v) =>
+        `<article><h4>${escapeHtml(v.versionDisplay)}</h4><time datetime="${escapeHtml(v.releaseDate)}"></time>${
+          v.releaseNotes != null ? `<p>${escapeHtml(v.releaseNotes)}</p>` : ''
+        }</article>`
+    )
+    .join('');
+  return `<!DOCTYPE html>
+<html><body>
+<h1>${escapeHtml(app.title)}</h1>
+<ul class="shelf-grid__list shelf-grid__list--grid-type-ScreenshotPhone">${screenshots}</ul>
+${renderPrivacyDialog(app)}
+<dialog data-testid="dialog">${versions}</dialog>
+<h2>You Might Also Like</h2>
+${similar}
+</body></html>`;
+}
+
+function renderPrivacyDialog(app: MockApp): string {
+  const privacy = app.privacy ?? {};
+  const policy =
+    privacy.privacyPolicyUrl != null
+      ? `<a data-test-id="external-link" href="${escapeHtml(privacy.privacyPolicyUrl)}" aria-label="Privacy Policy">Privacy Policy</a>`
+      : '';
+  const byPurpose = new Map<string, string[]>();
+  for (const type of privacy.privacyTypes ?? []) {
+    const dataTypes = (type.dataCategories ?? []).map((d) => `<li>${escapeHtml(d)}</li>`).join('');
+    const category = `<li class="purpose-category"><span class="category-title">${escapeHtml(type.name)}</span><ul class="privacy-data-types">${dataTypes}</ul></li>`;
+    for (const purpose of type.purposes ?? []) {
+      byPurpose.set(purpose, [...(byPurpose.get(purpose) ?? []), category]);
+    }
+  }
+  const sections = [...byPurpose]
+    .map(
+      ([purpose, categories]) =>
+        `<section class="purpose-section"><h3>${escapeHtml(purpose)}</h3><ul>${categories.join('')}</ul></section>`
+    )
+    .join('');
+  return `<dialog data-testid="dialog">${policy}${sections}</dialog>`;
+}
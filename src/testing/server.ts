@@ -0,0 +1,266 @@
+/**
+ * Local HTTP server emulating the Apple endpoints used by the library, backed by an
+ * in-memory catalog. Routes are matched on path only, so the three Apple hosts share
+ * one origin: {@link MockAppStore.endpoints} points every endpoint at it, and
+ * {@link MockAppStore.fetch} rewrites Apple URLs to it.
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Collection } from '../types/constants.js';
+import type { EndpointName, FetchFunction } from '../types/options.js';
+import { DEFAULT_ENDPOINTS } from '../lib/endpoints.js';
+import type {
+  MockApp,
+  MockAppStore,
+  MockAppStoreOptions,
+  MockFailure,
+  MockRequest,
+} from '../types/testing.js';
+import {
+  renderAppPage,
+  renderChart,
+  renderHints,
+  renderLookup,
+  renderRatings,
+  renderReviews,
+} from './render.js';
+
+/** Origins redirected to the mock server by {@link MockAppStore.fetch}. */
+const APPLE_ORIGINS = [
+  'https://itunes.apple.com',
+  'https://search.itunes.apple.com',
+  'https://apps.apple.com',
+];
+
+interface Reply {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+const notFound: Reply = { status: 404, contentType: 'text/plain', body: 'Not Found' };
+const json = (body: string): Reply => ({ status: 200, contentType: 'application/json', body });
+const html = (body: string): Reply => ({ status: 200, contentType: 'text/html', body });
+
+/**
+ * Starts a mock App Store on `127.0.0.1` serving the iTunes lookup and search APIs, RSS chart and
+ * customer reviews feeds, the customer-reviews ratings page, MZSearchHints, and apps.apple.com app
+ * pages from `options.apps`. Pass `server.requestOptions` (or `server.endpoints`/`server.fetch`) to any method or to
+ * `createClient` to target it; use `inject()` to simulate 429/503/404 responses.
+ *
+ * @example
+ * ```typescript
+ * import { createMockAppStore } from '@davidshq/app-store-scraper/testing';
+ *
+ * const server = await createMockAppStore({
+ *   apps: [{ id: 1, appId: 'com.example.app', title: 'Example', histogram: { 1: 0, 2: 0, 3: 1, 4: 2, 5: 7 } }],
+ * });
+ * const store = createClient({ requestOptions: { ...server.requestOptions, retries: 1 } });
+ * server.inject({ endpoint: 'lookup', status: 503 });
+ * await store.app({ id: 1, ratings: true }); // retried, then served from the catalog
+ * await server.close();
+ * ```
+ */
+export async function createMockAppStore(options: MockAppStoreOptions = {}): Promise<MockAppStore> {
+  const catalog = options.apps ?? [];
+  const requests: MockRequest[] = [];
+  const failures: Array<MockFailure & { remaining: number }> = [];
+
+  const server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    const url = new URL(path, 'http://localhost');
+    const route = routeFor(url.pathname);
+    requests.push({ endpoint: route?.endpoint, path, headers: headersOf(req) });
+
+    const failure = failures.find(
+      (f) => f.endpoint === undefined || f.endpoint === route?.endpoint
+    );
+    if (failure) {
+      if (--failure.remaining === 0) failures.splice(failures.indexOf(failure), 1);
+      res.writeHead(failure.status, { 'content-type': 'text/plain', ...failure.headers });
+      res.end(failure.body ?? '');
+      return;
+    }
+    send(res, route ? route.handle(url, catalog, options.charts) : notFound);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  const origin = `http://127.0.0.1:${port}`;
+
+  const endpoints = Object.fromEntries(
+    Object.keys(DEFAULT_ENDPOINTS).map((name) => [name, origin])
+  ) as Record<EndpointName, string>;
+  const fetch: FetchFunction = (url, init) => {
+    const apple = APPLE_ORIGINS.find((o) => url === o || url.startsWith(`${o}/`));
+    return globalThis.fetch(apple ? origin + url.slice(apple.length) : url, init);
+  };
+
+  return {
+    url: origin,
+    endpoints,
+    fetch,
+    requestOptions: { endpoints },
+    requests,
+    inject(failure) {
+      failures.push({ ...failure, remaining: failure.times ?? 1 });
+    },
+    reset() {
+      requests.length = 0;
+      failures.length = 0;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      );
+    },
+  };
+}
+
+function headersOf(req: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return headers;
+}
+
+function send(res: ServerResponse, reply: Reply): void {
+  res.writeHead(reply.status, { 'content-type': `${reply.contentType}; charset=utf-8` });
+  res.end(reply.body);
+}
+
+interface Route {
+  endpoint: EndpointName;
+  handle: (url: URL, catalog: MockApp[], charts: MockAppStoreOptions['charts']) => Reply;
+}
+
+/** Matches a request path to an endpoint handler. */
+function routeFor(pathname: string): Route | undefined {
+  if (pathname === '/lookup') return { endpoint: 'lookup', handle: lookup };
+  if (pathname === '/search') return { endpoint: 'search', handle: search };
+  if (pathname.endsWith('/MZSearchHints.woa/wa/hints')) return { endpoint: 'hints', handle: hints };
+
+  const reviewsFeed = pathname.match(/^\/([a-z]{2})\/rss\/customerreviews\/(.+)\/json$/);
+  if (reviewsFeed) {
+    const [, country = '', params = ''] = reviewsFeed;
+    return { endpoint: 'rss', handle: (_url, catalog) => reviews(catalog, country, params) };
+  }
+  const chart = pathname.match(
+    /^\/([a-z]{2})\/rss\/([a-z]+)(?:\/genre=(\d+))?\/limit=(\d+)\/json$/
+  );
+  if (chart) {
+    const [, country = '', collection = '', genre, limit = '0'] = chart;
+    return {
+      endpoint: 'rss',
+      handle: (_url, catalog, charts) =>
+        list(catalog, charts, country, collection as Collection, genre, Number(limit)),
+    };
+  }
+  const ratingsPage = pathname.match(/^\/([a-z]{2})\/customer-reviews\/id(\d+)$/);
+  if (ratingsPage) {
+    const [, country = '', id = ''] = ratingsPage;
+    return {
+      endpoint: 'customerReviews',
+      handle: (_url, catalog) => {
+        const app = findApp(catalog, country, Number(id));
+        return app ? html(renderRatings(app.histogram)) : notFound;
+      },
+    };
+  }
+  const appPage = pathname.match(/^\/([a-z]{2})\/app\/(?:[^/]+\/)?id(\d+)$/);
+  if (appPage) {
+    const [, country = '', id = ''] = appPage;
+    return {
+      endpoint: 'appPage',
+      handle: (_url, catalog) => {
+        const app = findApp(catalog, country, Number(id));
+        return app ? html(renderAppPage(app, country)) : notFound;
+      },
+    };
+  }
+  return undefined;
+}
+
+function availableIn(app: MockApp, country: string): boolean {
+  return app.countries == null || app.countries.includes(country);
+}
+
+function findApp(catalog: MockApp[], country: string, id: number): MockApp | undefined {
+  return catalog.find((app) => app.id === id && availableIn(app, country));
+}
+
+/** `/lookup?id=...|bundleId=...`: track IDs, artist IDs (artist record plus apps), or bundle IDs. */
+function lookup(url: URL, catalog: MockApp[]): Reply {
+  const country = url.searchParams.get('country') ?? 'us';
+  const available = catalog.filter((app) => availableIn(app, country));
+  const ids = url.searchParams.get('id')?.split(',').map(Number);
+  const bundleIds = url.searchParams.get('bundleId')?.toLowerCase().split(',');
+
+  const results: Parameters<typeof renderLookup>[0] = [];
+  for (const id of ids ?? []) {
+    const app = available.find((a) => a.id === id);
+    if (app) {
+      results.push(app);
+      continue;
+    }
+    const byDeveloper = available.filter((a) => a.developerId === id);
+    if (byDeveloper.length > 0) {
+      results.push({ artistId: id, artistName: byDeveloper[0]!.developer ?? '' }, ...byDeveloper);
+    }
+  }
+  for (const bundleId of bundleIds ?? []) {
+    const app = available.find((a) => a.appId.toLowerCase() === bundleId);
+    if (app) results.push(app);
+  }
+  return json(renderLookup(results, country));
+}
+
+/** `/search?term=...`: apps whose title or developer contains the term (case-insensitive). */
+function search(url: URL, catalog: MockApp[]): Reply {
+  const country = url.searchParams.get('country') ?? 'us';
+  const term = (url.searchParams.get('term') ?? '').toLowerCase();
+  const limit = Number(url.searchParams.get('limit') ?? 50);
+  const matches = catalog.filter(
+    (app) =>
+      availableIn(app, country) &&
+      (app.title.toLowerCase().includes(term) || (app.developer ?? '').toLowerCase().includes(term))
+  );
+  return json(renderLookup(matches.slice(0, limit), country));
+}
+
+/** MZSearchHints: titles containing the term. */
+function hints(url: URL, catalog: MockApp[]): Reply {
+  const term = (url.searchParams.get('term') ?? '').toLowerCase();
+  const terms = catalog.map((app) => app.title).filter((t) => t.toLowerCase().includes(term));
+  return { status: 200, contentType: 'text/xml', body: renderHints(terms) };
+}
+
+/** RSS chart: the configured chart (or the whole catalog), filtered by genre and limited. */
+function list(
+  catalog: MockApp[],
+  charts: MockAppStoreOptions['charts'],
+  country: string,
+  collection: Collection,
+  genre: string | undefined,
+  limit: number
+): Reply {
+  const chartIds = charts?.[collection];
+  const apps = (chartIds ? chartIds.map((id) => findApp(catalog, country, id)) : catalog)
+    .filter((app): app is MockApp => app != null && availableIn(app, country))
+    .filter((app) => genre == null || app.genreId === Number(genre));
+  return json(renderChart(apps.slice(0, limit), country));
+}
+
+/** Customer reviews feed: `page=N/id=ID/sortby=...` path segments. */
+function reviews(catalog: MockApp[], country: string, params: string): Reply {
+  const values = Object.fromEntries(
+    params.split('/').map((segment) => segment.split('=') as [string, string])
+  );
+  const app = findApp(catalog, country, Number(values.id));
+  return app ? json(renderReviews(app, Number(values.page ?? 1))) : notFound;
+}
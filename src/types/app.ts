@@ -1,3 +1,5 @@
+import type { ITunesAppResponse, RssFeedEntry } from '../lib/schemas.js';
+
 /**
  * Lightweight app shape returned by `list()` when `fullDetail: false`.
  * Built only from the RSS feed (no lookup), so fewer fields and fewer requests.
@@ -33,10 +35,14 @@ export interface ListApp {
   genreId: number;
   /** Initial release date */
   released: string;
+  /** Validated RSS feed entry this item was built from (only with `includeRaw: true`) */
+  raw?: RssFeedEntry;
 }
 
 /**
- * Represents a complete app from the iTunes/Mac App Store
+ * Represents a complete app from the iTunes/Mac App Store.
+ * Optional fields from `kind` to `trackCensoredName` are passed through from the lookup record
+ * under their iTunes names and are undefined when Apple omits them.
  */
 export interface App {
   /** Track ID (numeric identifier) */
@@ -114,6 +120,28 @@ export interface App {
   appletvScreenshots: string[];
   /** List of supported device names */
   supportedDevices: string[];
+  /** Record kind: `software` (iOS / universal) or `mac-software` */
+  kind?: string;
+  /** Price as displayed in the store, e.g. "Free" or "$4.99" */
+  formattedPrice?: string;
+  /** Legal seller name, which can differ from {@link App.developer} */
+  sellerName?: string;
+  /** Store age rating label, e.g. "12+" (usually equal to {@link App.contentRating}) */
+  trackContentRating?: string;
+  /** Content advisories behind the age rating, e.g. ["Infrequent/Mild Cartoon or Fantasy Violence"] */
+  advisories?: string[];
+  /** Store feature flags, e.g. ["iosUniversal", "gameCenter"] */
+  features?: string[];
+  /** Whether the app uses Game Center */
+  isGameCenterEnabled?: boolean;
+  /** Whether volume purchases can be assigned to devices (Apple VPP device-based licensing) */
+  isVppDeviceBasedLicensingEnabled?: boolean;
+  /** 60x60 icon URL */
+  artworkUrl60?: string;
+  /** 100x100 icon URL */
+  artworkUrl100?: string;
+  /** App name with profanity masked, as Apple shows it in censored contexts */
+  trackCensoredName?: string;
   /** Rating histogram (only if ratings option is true) */
   histogram?: RatingHistogram;
   /**
@@ -121,6 +149,11 @@ export interface App {
    * the reported total (page structure drift). Only set when `ratings: true` was used.
    */
   ratingHistogramWarnings?: string[];
+  /**
+   * Validated lookup or search record this app was built from, including fields the library does
+   * not map (only with `includeRaw: true`)
+   */
+  raw?: ITunesAppResponse;
 }
 
 /**
@@ -175,3 +208,66 @@ export interface SimilarApp {
   /** Section where the link appeared (e.g. "Customers Also Bought", "More by developer") */
   linkType: SimilarLinkType;
 }
+
+/**
+ * One storefront's row in the table returned by `appAcrossCountries()`. Fields other than
+ * `country` and `available` are set only when the app is available in that storefront.
+ */
+export interface CountryApp {
+  /** Two-letter storefront code (lowercase) */
+  country: string;
+  /** Whether the lookup API returned the app in this storefront */
+  available: boolean;
+  /** Price in the storefront's currency */
+  price?: number;
+  /** Currency code (e.g., "USD", "EUR") */
+  currency?: string;
+  /** Price as Apple displays it in this storefront (e.g., "Free", "4,99 €") */
+  formattedPrice?: string;
+  /** Average user rating in this storefront (0 when unknown) */
+  score?: number;
+  /** Rating count in this storefront */
+  reviews?: number;
+  /** Current version string */
+  version?: string;
+  /** Supported languages (array of language codes) */
+  languages?: string[];
+  /** Initial release date */
+  released?: string;
+}
+
+/**
+ * Storefront availability of one app, returned by `availability()`. Storefronts are listed in the
+ * order they were checked (lowercase codes).
+ */
+export interface AppAvailability {
+  /** Track ID or bundle ID, as requested */
+  id: number | string;
+  /** Storefronts where the lookup API returned the app */
+  available: string[];
+  /** Storefronts where it did not */
+  unavailable: string[];
+}
+
+/**
+ * Storefronts an app gained or lost between two `availability()` runs, returned by
+ * `diffAvailability()`.
+ */
+export interface AvailabilityChange {
+  /** Track ID or bundle ID, as in the current run */
+  id: number | string;
+  /** Unavailable in the previous run, available now */
+  gained: string[];
+  /** Available in the previous run, unavailable now */
+  lost: string[];
+}
+
+/**
+ * Result of the apps() batch lookup.
+ */
+export interface AppsResult {
+  /** Apps found, in the order their IDs were given (duplicates removed). */
+  apps: App[];
+  /** Requested IDs (track IDs or bundle IDs, as given) that the lookup API did not return. */
+  notFound: (number | string)[];
+}
@@ -0,0 +1,82 @@
+import type { EndpointName } from './options.js';
+
+/**
+ * A cached response body with its freshness window (epoch milliseconds).
+ */
+export interface CacheEntry {
+  /** Response body as returned by `doRequest` */
+  body: string;
+  /** When the entry was stored */
+  storedAt: number;
+  /** When the entry stops being fresh */
+  expiresAt: number;
+  /** `ETag` response header, sent back as `If-None-Match` to revalidate the entry once stale */
+  etag?: string;
+  /** `Last-Modified` response header, sent back as `If-Modified-Since` to revalidate the entry once stale */
+  lastModified?: string;
+}
+
+/**
+ * Storage backend for the response cache. Methods may be sync or async, so an in-memory
+ * map, a file-system store, or a remote store (e.g. Redis) can all implement it.
+ * Stores only persist entries; freshness (TTL) is checked by the library.
+ */
+export interface CacheStore {
+  /** Returns the entry for `key`, or undefined when absent (expired entries may be returned). */
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  /** Stores or replaces the entry for `key`. */
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  /** Removes the entry for `key` (no-op when absent). */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for `FileSystemCacheStore`.
+ */
+export interface FileSystemCacheStoreOptions {
+  /** Directory holding the index and body files; created on first write. */
+  directory: string;
+  /** Maximum number of entries (default 10000). Least recently used entries are evicted first. */
+  maxEntries?: number;
+  /** Maximum total size of stored bodies in bytes (default 104857600 = 100 MiB). */
+  maxBytes?: number;
+}
+
+/**
+ * Cache activity reported to {@link CacheOptions.onEvent}:
+ * `hit` (served from cache), `miss` (no fresh entry; request sent), `set` (response stored),
+ * `revalidated` (stale entry confirmed unchanged by a 304 response and served with a renewed TTL).
+ */
+export interface CacheEvent {
+  type: 'hit' | 'miss' | 'set' | 'revalidated';
+  /** Cache key (URL plus store-front / language headers) */
+  key: string;
+  /** Request URL */
+  url: string;
+  /** Logical endpoint, when the URL matches a known Apple endpoint */
+  endpoint?: EndpointName;
+}
+
+/**
+ * Response cache configuration, passed as `requestOptions.cache`.
+ * Reuse the same object (or a client) across calls so they share the store.
+ *
+ * Stale entries that were stored with an `ETag` or `Last-Modified` header are revalidated with a
+ * conditional request (`If-None-Match` / `If-Modified-Since`); a 304 response renews the entry
+ * without downloading the body again.
+ */
+export interface CacheOptions {
+  /** Where entries are kept, e.g. `new MemoryCacheStore({ maxEntries: 500 })` */
+  store: CacheStore;
+  /** Time-to-live in milliseconds (default 300000 = 5 minutes). 0 or less disables caching. */
+  ttlMs?: number;
+  /** Per-endpoint TTL overrides in milliseconds, e.g. `{ appPage: 3_600_000, lookup: 60_000 }`. */
+  endpointTtlMs?: Partial<Record<EndpointName, number>>;
+  /**
+   * Serve every request from the store, never the network: entries are returned regardless of
+   * age, and a request with no entry rejects with `CacheMissError` (default false).
+   */
+  offline?: boolean;
+  /** Called on every cache hit, miss, and store, for logging or metrics. */
+  onEvent?: (event: CacheEvent) => void;
+}
@@ -0,0 +1,58 @@
+import type { FetchFunction } from './options.js';
+
+/**
+ * `record` sends requests through the underlying fetch and stores each interaction;
+ * `replay` answers from stored interactions only and never touches the network.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * One recorded request/response pair.
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    /** Request headers (lower-cased names; credentials redacted). */
+    headers: Record<string, string>;
+  };
+  response: {
+    status: number;
+    /** Response headers (lower-cased names; without `Content-Encoding`, `Content-Length`, `Transfer-Encoding`). */
+    headers: Record<string, string>;
+    /** Response body text (JSON, XML, or HTML as received). */
+    body: string;
+  };
+}
+
+/**
+ * Serialized cassette, as written by `Cassette.save()` and read by `Cassette.load()`.
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Options for a `Cassette`.
+ */
+export interface CassetteOptions {
+  /** Record or replay (default: `'replay'`). */
+  mode?: CassetteMode;
+  /** Interactions to replay (or to start recording from). */
+  interactions?: CassetteInteraction[];
+  /** Fetch used to send requests in record mode (default: the global `fetch`, resolved at call time). */
+  fetch?: FetchFunction;
+  /**
+   * Request headers that must match, besides method and URL, for a recorded interaction to be replayed
+   * (case-insensitive). Default: `X-Apple-Store-Front` and `Accept-Language`, the headers that change
+   * Apple's response for the same URL.
+   */
+  matchHeaders?: string[];
+  /**
+   * Cassette file. In record mode it is rewritten after each recorded interaction, so nothing is
+   * lost if the process exits early; in replay mode its interactions are read before the first
+   * request (after any given `interactions`).
+   */
+  path?: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * Circuit state: `closed` (requests flow), `open` (requests fail fast), `half-open`
+ * (after the cooldown, one trial request decides whether to close or reopen).
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A circuit state transition, reported to {@link CircuitBreakerOptions.onStateChange}.
+ */
+export interface CircuitStateChange {
+  /** Circuit name: the endpoint (e.g. `appPage`) or, with `scope: 'host'`, the hostname */
+  circuit: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Consecutive failures counted when the transition happened */
+  failures: number;
+}
+
+/**
+ * Configuration for a `CircuitBreaker`.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open a closed circuit (default 5). */
+  failureThreshold?: number;
+  /** How long a circuit stays open before a trial request is let through, in ms (default 30000). */
+  cooldownMs?: number;
+  /** Successful trial requests needed to close a half-open circuit (default 1). */
+  successThreshold?: number;
+  /**
+   * One circuit per logical endpoint (`'endpoint'`, default; URLs matching no endpoint use their host)
+   * or per hostname (`'host'`).
+   */
+  scope?: 'endpoint' | 'host';
+  /**
+   * Whether an attempt's error counts as a failure. Default: 5xx responses, timeouts, and network
+   * errors; other errors (404, 429, parse errors) count as successes, since the service answered.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /** Called on every state transition, for logging or metrics. */
+  onStateChange?: (event: CircuitStateChange) => void;
+}
+
+/**
+ * Breaker consulted by `doRequest` before every request attempt. `CircuitBreaker` implements it.
+ */
+export interface RequestCircuitBreaker {
+  /**
+   * Admits an attempt to `url` and returns its permit, or throws (typically `CircuitOpenError`)
+   * to refuse it without sending a request.
+   */
+  enter(url: string): CircuitPermit;
+}
+
+/**
+ * Admission of one request attempt by a circuit. `doRequest` settles it exactly once.
+ */
+export interface CircuitPermit {
+  /** Records the attempt's outcome: success without an error, otherwise per `isFailure`. */
+  done(error?: unknown): void;
+  /** Releases the permit without an outcome (e.g. the caller aborted). */
+  abandon(): void;
+}
@@ -0,0 +1,69 @@
+import type { EndpointName } from './options.js';
+import type { RetryContext } from './retry.js';
+
+/**
+ * Request about to be sent, passed to {@link RequestHooks.beforeRequest}. `url` and `headers`
+ * may be reassigned or mutated; the request is sent with the values left after the hook.
+ */
+export interface BeforeRequestContext {
+  /** Request URL. */
+  url: string;
+  /** Request headers (defaults merged with `requestOptions.headers`); a fresh copy per attempt. */
+  headers: Record<string, string>;
+  /** Attempt number (1-based; greater than 1 for retries). */
+  readonly attempt: number;
+  /** Logical endpoint, when the URL is a known Apple endpoint. */
+  readonly endpoint?: EndpointName;
+}
+
+/**
+ * Response received for an attempt, passed to {@link RequestHooks.afterResponse}.
+ */
+export interface AfterResponseContext {
+  /** URL the request was sent to (after `beforeRequest`). */
+  url: string;
+  /** Attempt number (1-based). */
+  attempt: number;
+  /** Logical endpoint, when the URL is a known Apple endpoint. */
+  endpoint?: EndpointName;
+  /** HTTP status. */
+  status: number;
+  /** Whether the status is 2xx. */
+  ok: boolean;
+  /** Response headers. */
+  headers: Headers;
+  /** Response body text (empty when it could not be read for a failed response). */
+  body: string;
+}
+
+/**
+ * Final failure of a request, passed to {@link RequestHooks.onError}.
+ */
+export interface RequestErrorContext {
+  /** Request URL (as passed to `doRequest`). */
+  url: string;
+  /** Logical endpoint, when the URL is a known Apple endpoint. */
+  endpoint?: EndpointName;
+  /** The error the request rejects with (the abort reason when cancelled). */
+  error: unknown;
+  /** Number of attempts made, including retries. */
+  attempts: number;
+  /** Total time spent waiting between attempts in milliseconds. */
+  totalWaitMs: number;
+}
+
+/**
+ * Callbacks around every HTTP request made through `doRequest` (lookup, search, RSS, ratings HTML,
+ * hints XML, app pages). Hooks may be async; the request waits for them. An error thrown by
+ * `beforeRequest` or `afterResponse` fails the attempt like a network error would.
+ */
+export interface RequestHooks {
+  /** Called before each attempt is sent; mutate `ctx.url` / `ctx.headers` to change the request. */
+  beforeRequest?: (ctx: BeforeRequestContext) => void | Promise<void>;
+  /** Called for every response (successful or not) after the body is read. */
+  afterResponse?: (ctx: AfterResponseContext) => void | Promise<void>;
+  /** Called before waiting to retry a failed attempt. */
+  onRetry?: (ctx: RetryContext) => void | Promise<void>;
+  /** Called once when the request finally fails (after retries, or when cancelled). */
+  onError?: (ctx: RequestErrorContext) => void | Promise<void>;
+}
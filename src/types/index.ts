@@ -1,13 +1,67 @@
 /** Barrel re-exports for all public types and constants. */
-export type { App, ListApp, RatingHistogram, Ratings, SimilarApp, SimilarLinkType } from './app.js';
+export type {
+  App,
+  AppAvailability,
+  AppsResult,
+  AvailabilityChange,
+  CountryApp,
+  ListApp,
+  RatingHistogram,
+  Ratings,
+  SimilarApp,
+  SimilarLinkType,
+} from './app.js';
 export type { Review } from './review.js';
 export type { Suggestion } from './suggest.js';
+export type { Storefront, StorefrontRegion } from './storefront.js';
 export type { VersionHistory, PrivacyDetails, PrivacyType } from './app-details.js';
 export type {
+  CacheEntry,
+  CacheStore,
+  CacheEvent,
+  CacheOptions,
+  FileSystemCacheStoreOptions,
+} from './cache.js';
+export type { RateLimitBudget, RateLimiterOptions, RequestLimiter } from './rate-limit.js';
+export type {
+  CircuitBreakerOptions,
+  CircuitPermit,
+  CircuitState,
+  CircuitStateChange,
+  RequestCircuitBreaker,
+} from './circuit-breaker.js';
+export type {
+  MetricsCollectorOptions,
+  MetricsSink,
+  MetricsStats,
+  MetricsSummary,
+  RequestMetricsEvent,
+} from './metrics.js';
+export type { JitterStrategy, RetryContext, RetryPolicy } from './retry.js';
+export type {
+  AfterResponseContext,
+  BeforeRequestContext,
+  RequestErrorContext,
+  RequestHooks,
+} from './hooks.js';
+export type { Logger, LogContext } from './logger.js';
+export type {
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+} from './cassette.js';
+export type { PlannedRequest } from './plan.js';
+export type {
+  EndpointName,
+  FetchFunction,
   RequestOptions,
   BaseOptions,
   ResolveAppIdOptions,
   AppOptions,
+  AppsOptions,
+  AppAcrossCountriesOptions,
+  AvailabilityOptions,
   ListOptions,
   SearchOptions,
   DeveloperOptions,
@@ -15,6 +69,7 @@ export type {
   RatingsOptions,
   SimilarOptions,
   SuggestOptions,
+  RefreshStorefrontsOptions,
   PrivacyOptions,
   VersionHistoryOptions,
 } from './options.js';
@@ -0,0 +1,20 @@
+/** Structured fields attached to a log message (e.g. `url`, `attempt`, `skipped`). */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Receiver for library diagnostics, called as `(message, context)`. `console` and winston loggers
+ * can be passed as-is. pino takes the context first (`(obj, msg)`), so wrap it:
+ * `{ warn: (message, context) => log.warn(context ?? {}, message), ... }` for each level.
+ *
+ * Levels used by the library:
+ * - `debug` – fallbacks taken on the normal path (screenshot scraping, app page 404, no ratings)
+ * - `info` – retries of transient failures
+ * - `warn` – data dropped or inconsistent (skipped feed entries, rating histogram mismatches)
+ * - `error` – not used for thrown errors; those are surfaced to the caller instead
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
@@ -0,0 +1,103 @@
+import type { EndpointName } from './options.js';
+
+/**
+ * One completed `doRequest` call, reported to {@link MetricsSink.record}: a network round-trip
+ * (with its retries), a cache hit, or a call that joined an identical request in flight.
+ *
+ * The schema is stable: fields are only added, and `schemaVersion` changes if a field is
+ * renamed, removed, or changes meaning.
+ */
+export interface RequestMetricsEvent {
+  /** Event schema version (currently 1) */
+  schemaVersion: 1;
+  /** Request URL (as built by the library, before `beforeRequest` hooks) */
+  url: string;
+  /** Logical endpoint, when the URL is a known Apple endpoint */
+  endpoint?: EndpointName;
+  /** Public method that started the call chain, e.g. `similar`; undefined for direct `doRequest` calls */
+  method?: string;
+  /**
+   * Functions from the public method down to the one that made the request, e.g.
+   * `['similar', 'fetchAppPage']` or `['app', 'ratings']`
+   */
+  trace: string[];
+  /** Epoch milliseconds when the call started */
+  startedAt: number;
+  /** Wall time of the call in milliseconds, including rate-limiter waits and retry backoff */
+  durationMs: number;
+  /** Whether the call returned a body */
+  ok: boolean;
+  /**
+   * HTTP status of the last response this call received; undefined when it received none
+   * (cache hit, joined request, network error, timeout, open circuit)
+   */
+  status?: number;
+  /** Name of the error the call rejected with (e.g. `NotFoundError`, `TimeoutError`) */
+  error?: string;
+  /** Size of the returned body in bytes (UTF-8); 0 on failure */
+  bytes: number;
+  /** Request attempts this call sent (0 for cache hits and joined requests) */
+  attempts: number;
+  /** Retries among `attempts` */
+  retries: number;
+  /** Time spent in retry backoff in milliseconds */
+  totalWaitMs: number;
+  /** Served from `requestOptions.cache` without a request */
+  cacheHit: boolean;
+  /** Joined an identical request already in flight (see `requestOptions.dedupe`) */
+  deduped: boolean;
+}
+
+/**
+ * Receives a {@link RequestMetricsEvent} for every request made with `requestOptions.metrics`.
+ * `MetricsCollector` implements it; implement it yourself to forward events to your monitoring.
+ * Errors thrown by `record` are logged and never fail the request.
+ */
+export interface MetricsSink {
+  record(event: RequestMetricsEvent): void;
+}
+
+/**
+ * Configuration for a `MetricsCollector`.
+ */
+export interface MetricsCollectorOptions {
+  /**
+   * Latency samples kept per group (overall, each endpoint, each method) for percentiles; older
+   * samples are dropped first (default 10000). Counters cover every recorded event.
+   */
+  maxSamples?: number;
+}
+
+/**
+ * Aggregated statistics for a group of requests.
+ */
+export interface MetricsSummary {
+  /** Recorded requests */
+  requests: number;
+  /** Requests that failed */
+  errors: number;
+  /** `errors / requests` (0 when there are no requests) */
+  errorRate: number;
+  /** Requests served from the cache */
+  cacheHits: number;
+  /** Retries across all requests */
+  retries: number;
+  /** Body bytes returned */
+  bytes: number;
+  /** Latency percentiles (nearest rank) and maximum over the retained samples, in milliseconds */
+  latencyMs: { p50: number; p95: number; max: number };
+  /** Requests by final HTTP status, e.g. `{ '200': 40, '404': 2, '503': 1 }` */
+  statuses: Record<string, number>;
+  /** Failed requests by error name, e.g. `{ NotFoundError: 2, TimeoutError: 1 }` */
+  errorTypes: Record<string, number>;
+}
+
+/**
+ * Snapshot returned by `MetricsCollector.stats()`: overall statistics plus the same breakdown
+ * per endpoint and per public method. Requests without an endpoint or method appear only in
+ * the overall figures.
+ */
+export interface MetricsStats extends MetricsSummary {
+  byEndpoint: Partial<Record<EndpointName, MetricsSummary>>;
+  byMethod: Record<string, MetricsSummary>;
+}
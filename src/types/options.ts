@@ -1,4 +1,38 @@
+import type { CacheOptions } from './cache.js';
+import type { RequestCircuitBreaker } from './circuit-breaker.js';
 import type { Collection, Category, Device, Sort } from './constants.js';
+import type { RequestHooks } from './hooks.js';
+import type { Logger } from './logger.js';
+import type { MetricsSink } from './metrics.js';
+import type { RequestLimiter } from './rate-limit.js';
+import type { RetryPolicy } from './retry.js';
+
+/**
+ * Logical Apple endpoints the library talks to. Used for per-endpoint settings
+ * such as cache TTL overrides.
+ * - `lookup` – iTunes Lookup API (app, developer, resolveAppId, similar, list fullDetail)
+ * - `search` – iTunes Search API
+ * - `rss` – RSS feeds (list charts and customer reviews)
+ * - `customerReviews` – customer-reviews HTML page (ratings histogram)
+ * - `hints` – MZSearchHints XML (suggest)
+ * - `appPage` – apps.apple.com app page HTML (similar, privacy, versionHistory, screenshots)
+ * - `storefronts` – availableStoreFronts storefront list (refreshStorefronts)
+ */
+export type EndpointName =
+  | 'lookup'
+  | 'search'
+  | 'rss'
+  | 'customerReviews'
+  | 'hints'
+  | 'appPage'
+  | 'storefronts';
+
+/**
+ * Signature of the `fetch` implementation used for HTTP requests. The global `fetch` satisfies it,
+ * as do wrappers (proxying, recording) and test fakes. To use an undici `Dispatcher`, wrap fetch:
+ * `(url, init) => fetch(url, { ...init, dispatcher })`.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
 
 /**
  * Options passed through to the underlying `fetch()` for HTTP requests.
@@ -9,7 +43,20 @@ import type { Collection, Category, Device, Sort } from './constants.js';
  *   `headers: { 'User-Agent': '...' }`.
  * - `timeoutMs` – Request timeout in milliseconds (default: 15000). Must be a positive finite number. Uses `AbortSignal.timeout()`.
  * - `retries` – Number of retries for transient failures (default: 0, opt-in). Retries on 429, 503,
- *   network errors, and timeout (AbortError), with exponential backoff. Set to a positive value (e.g. 2) to enable.
+ *   network errors, and timeout, with exponential backoff. Set to a positive value (e.g. 2) to enable.
+ * - `retryPolicy` – Which failures are retried and how long to wait (statuses, delays, jitter, `shouldRetry`).
+ *   `Retry-After` response headers are honored.
+ * - `fetch` – Custom fetch implementation (transport) used instead of the global `fetch`.
+ * - `cache` – Response cache (store, TTL, per-endpoint TTLs). Pass `cache: false` to bypass a client-level cache.
+ * - `signal` – `AbortSignal` that cancels the call (in-flight request, backoff sleep, and any remaining requests).
+ * - `hooks` – Callbacks around every request: `beforeRequest`, `afterResponse`, `onRetry`, `onError`.
+ * - `rateLimiter` – Shared per-host rate limiter (e.g. a `RateLimiter`); every request attempt waits for a slot.
+ * - `circuitBreaker` – Shared circuit breaker (e.g. a `CircuitBreaker`); open circuits fail fast with `CircuitOpenError`.
+ * - `metrics` – Receives a metrics event per request (duration, bytes, status, retries, cache hit, method), e.g. a `MetricsCollector`.
+ * - `logger` – Receives library diagnostics (skipped entries, retries, fallbacks). Defaults to the global logger.
+ * - `dedupe` – Identical concurrent requests share one round-trip (default: true). Pass `false` to opt out.
+ * - `endpoints` – Base URL overrides per endpoint (reverse proxy, mock server, mirror hosts).
+ * - `maxBodyBytes` – Response body size limit, for all endpoints or per endpoint; larger bodies reject with `ResponseTooLargeError`.
  */
 export interface RequestOptions {
   /** Custom request headers (merged with defaults). Pass `User-Agent` to override the built-in value. */
@@ -18,6 +65,83 @@ export interface RequestOptions {
   timeoutMs?: number;
   /** Number of retries for transient failures (429, 503, network, timeout). Default 0 (opt-in). Set e.g. 2 to enable. */
   retries?: number;
+  /**
+   * Retry behaviour: retryable statuses, backoff base and cap, jitter, total elapsed-time budget,
+   * and a custom `shouldRetry(ctx)` predicate. Only used when `retries` is positive.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Custom fetch implementation used for every request (lookup, RSS, ratings, hints, app pages).
+   * Defaults to the global `fetch`, resolved at call time.
+   */
+  fetch?: FetchFunction;
+  /**
+   * Response cache. Successful bodies are cached by URL plus store-front/language headers.
+   * Pass `false` on a single call to bypass (neither read nor write) a cache set on the client.
+   */
+  cache?: CacheOptions | false;
+  /**
+   * Cancels the call. Combined with the timeout signal for each request; aborting also cancels a pending
+   * backoff sleep or rate-limiter wait and stops multi-request methods (e.g. `app()` with screenshots and
+   * ratings) before their next request. The call rejects with `signal.reason` and is never retried.
+   */
+  signal?: AbortSignal;
+  /**
+   * Callbacks around every request (lookup, search, RSS, ratings HTML, hints XML, app pages), for logging,
+   * metrics, header rotation, or auditing. Cache hits do not run hooks. Requests with hooks are not shared
+   * with identical concurrent calls (see `dedupe`).
+   */
+  hooks?: RequestHooks;
+  /**
+   * Rate limiter shared by every call that receives it. Each attempt (including retries) waits for a
+   * slot for the URL's host before fetching; cache hits skip it. Share one instance across calls.
+   */
+  rateLimiter?: RequestLimiter;
+  /**
+   * Circuit breaker shared by every call that receives it. Each attempt (including retries) must be admitted
+   * by the circuit for its endpoint; while a circuit is open, requests fail fast with `CircuitOpenError`.
+   * Cache hits skip it. Share one instance across calls.
+   */
+  circuitBreaker?: RequestCircuitBreaker;
+  /**
+   * Receives a `RequestMetricsEvent` when each request completes (including cache hits and failures):
+   * duration, bytes, status, retries, cache hit, endpoint, and the public method that triggered it. Pass a
+   * `MetricsCollector` for p50/p95 latency and error rates, or your own sink to forward events.
+   */
+  metrics?: MetricsSink;
+  /**
+   * Logger for diagnostics of this call (skipped feed entries, histogram mismatches, retries, fallbacks
+   * to page scraping). Overrides the logger set with `setLogger()`; the default is silent.
+   */
+  logger?: Logger;
+  /**
+   * Reject a `lang` the storefront does not list (see `storefronts()`) with `ValidationError`
+   * (field `lang`) before any request, instead of only logging a warning (default: false).
+   */
+  strictLang?: boolean;
+  /**
+   * Coalesce identical concurrent requests into one round-trip whose body every caller receives, with or without
+   * a cache (default: true). Requests are identical when `fetch`, URL, headers, `maxBodyBytes`, `timeoutMs`,
+   * `retries`, `retryPolicy`, `rateLimiter`, and `circuitBreaker` all match (objects by identity, so share one
+   * instance, e.g. through a client). Each caller parses the shared body itself. Calls with `hooks` always send
+   * their own request. Aborting one caller's `signal` only detaches
+   * that caller. Pass `false` to always send a separate request.
+   */
+  dedupe?: boolean;
+  /**
+   * Base URL per endpoint, replacing the Apple host (e.g. `https://itunes.apple.com`) while keeping the path,
+   * e.g. `{ rss: 'https://ax.itunes.apple.com' }` or `{ lookup: 'https://proxy.internal/itunes' }`. Omitted
+   * endpoints use Apple's hosts. Must be absolute http(s) URLs; a trailing slash is ignored.
+   */
+  endpoints?: Partial<Record<EndpointName, string>>;
+  /**
+   * Maximum response body size in bytes. Bodies are streamed and the request rejects with
+   * `ResponseTooLargeError` as soon as the limit is passed (never retried). A number applies to every
+   * endpoint; a record overrides the defaults (`DEFAULT_MAX_BODY_BYTES`: 10 MiB for lookup, search, and
+   * RSS, 5 MiB for customerReviews, 1 MiB for hints and storefronts, 20 MiB for app pages) per endpoint, e.g.
+   * `{ appPage: 5_000_000 }`. Must be positive; `Infinity` disables the limit.
+   */
+  maxBodyBytes?: number | Partial<Record<EndpointName, number>>;
 }
 
 /**
@@ -26,7 +150,11 @@ export interface RequestOptions {
 export interface BaseOptions {
   /** Two-letter country code (default: {@link DEFAULT_COUNTRY}) */
   country?: string;
-  /** Language code (e.g., "en-us") */
+  /**
+   * Language code (e.g., "en-us"). Any language is sent as given; one the storefront does not list
+   * (see `storefronts()`) is reported to the configured logger, since Apple may ignore it, or
+   * rejected with `requestOptions.strictLang`.
+   */
   lang?: string;
   /** Custom request options */
   requestOptions?: RequestOptions;
@@ -50,6 +178,52 @@ export interface AppOptions extends BaseOptions {
   appId?: string;
   /** Whether to include rating histogram */
   ratings?: boolean;
+  /** Attach the validated lookup record to the app as `raw` (default: false) */
+  includeRaw?: boolean;
+}
+
+/**
+ * Options for the apps() batch lookup. Provide exactly one of `ids` or `appIds`.
+ */
+export interface AppsOptions extends BaseOptions {
+  /** Track IDs (numeric) */
+  ids?: number[];
+  /** Bundle IDs (e.g., com.example.app) */
+  appIds?: string[];
+  /** IDs per lookup request (default: 50, max: 200) */
+  chunkSize?: number;
+  /** Maximum lookup requests in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * Options for the appAcrossCountries() method. Provide `id` or `appId`.
+ * Omits `country`: storefronts are chosen with `countries`.
+ */
+export interface AppAcrossCountriesOptions extends Omit<BaseOptions, 'country'> {
+  /** Track ID */
+  id?: number;
+  /** Bundle ID (e.g., com.example.app) */
+  appId?: string;
+  /** Two-letter storefront codes to look up (default: every storefront in {@link markets}) */
+  countries?: string[];
+  /** Maximum lookup requests in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * Options for the availability() method. Provide exactly one of `id` or `appId`.
+ * Omits `country` and `lang`: storefronts are chosen with `countries`.
+ */
+export interface AvailabilityOptions extends Omit<BaseOptions, 'country' | 'lang'> {
+  /** Track ID, or several to check as a batch */
+  id?: number | number[];
+  /** Bundle ID (e.g., com.example.app), or several to check as a batch */
+  appId?: string | string[];
+  /** Two-letter storefront codes to check (default: every storefront in {@link markets}) */
+  countries?: string[];
+  /** Maximum storefronts checked at once (default: 4) */
+  concurrency?: number;
 }
 
 /**
@@ -67,6 +241,11 @@ export interface ListOptions extends BaseOptions {
    * If true, fetches full details via lookup and returns {@link App[]}.
    */
   fullDetail?: boolean;
+  /**
+   * Attach the validated source record to each item as `raw` (default: false): the RSS feed entry,
+   * or the lookup record when `fullDetail` is true.
+   */
+  includeRaw?: boolean;
 }
 
 /**
@@ -87,6 +266,8 @@ export interface SearchOptions extends BaseOptions {
   device?: Device;
   /** Return only app IDs */
   idsOnly?: boolean;
+  /** Attach the validated search record to each app as `raw` (default: false; ignored with `idsOnly`) */
+  includeRaw?: boolean;
 }
 
 /**
@@ -95,6 +276,8 @@ export interface SearchOptions extends BaseOptions {
 export interface DeveloperOptions extends BaseOptions {
   /** Developer ID (artistId) - required */
   devId: number;
+  /** Attach the validated lookup record to each app as `raw` (default: false) */
+  includeRaw?: boolean;
 }
 
 /**
@@ -110,6 +293,8 @@ export interface ReviewsOptions extends Omit<BaseOptions, 'lang'> {
   page?: number;
   /** Sort order (default: RECENT) */
   sort?: Sort;
+  /** Attach the validated feed entry to each review as `raw` (default: false) */
+  includeRaw?: boolean;
 }
 
 /**
@@ -135,6 +320,8 @@ export interface SimilarOptions extends BaseOptions {
    * @default false
    */
   includeLinkType?: boolean;
+  /** Attach the validated lookup record to each app as `raw` (default: false) */
+  includeRaw?: boolean;
 }
 
 /**
@@ -146,6 +333,12 @@ export interface SuggestOptions extends Omit<BaseOptions, 'country' | 'lang'> {
   term: string;
 }
 
+/**
+ * Options for the refreshStorefronts() method.
+ * Omits `country` and `lang`: Apple's list covers every storefront.
+ */
+export type RefreshStorefrontsOptions = Omit<BaseOptions, 'country' | 'lang'>;
+
 /**
  * Options for the privacy() method.
  * Omits `lang`: the App Store page does not vary privacy labels by language parameter.
@@ -0,0 +1,16 @@
+import type { EndpointName } from './options.js';
+
+/**
+ * An HTTP request a method would make, as returned by `planRequests`.
+ */
+export interface PlannedRequest {
+  /** Position in the plan, starting at 1. Later steps may depend on earlier responses. */
+  step: number;
+  method: 'GET';
+  /** Final request URL (after `requestOptions.endpoints` overrides). */
+  url: string;
+  /** Request headers as sent: defaults, `requestOptions.headers`, and method headers such as `X-Apple-Store-Front`. */
+  headers: Record<string, string>;
+  /** Logical endpoint, or undefined when the URL matches no known endpoint path. */
+  endpoint?: EndpointName;
+}
@@ -0,0 +1,38 @@
+/**
+ * Request budget for one host. Omitted limits are not enforced.
+ */
+export interface RateLimitBudget {
+  /** Sustained request rate (token refill per second). Must be positive. */
+  requestsPerSecond?: number;
+  /**
+   * Maximum requests that may start back-to-back before the rate applies (bucket size).
+   * Default 1, so concurrent fan-outs are spaced evenly instead of bursting.
+   */
+  burst?: number;
+  /** Maximum requests in flight at once. Must be a positive integer. */
+  maxConcurrent?: number;
+}
+
+/**
+ * Configuration for a {@link RateLimiter}. Hosts are matched by exact hostname
+ * (e.g. `itunes.apple.com`, `apps.apple.com`, `search.itunes.apple.com`).
+ */
+export interface RateLimiterOptions {
+  /** Budgets keyed by hostname. */
+  hosts?: Record<string, RateLimitBudget>;
+  /** Budget for hosts not listed in `hosts` (default: unlimited). */
+  default?: RateLimitBudget;
+}
+
+/**
+ * Limiter consulted by `doRequest` before every request attempt. {@link RateLimiter} implements
+ * it; a custom implementation (e.g. a budget shared between processes) only needs `acquire`.
+ */
+export interface RequestLimiter {
+  /**
+   * Resolves once a request to `url` may start, with a function that releases the slot.
+   * `doRequest` calls `release` exactly once, after the response body is read or the attempt fails.
+   * When `signal` aborts before a slot is granted, implementations should reject with `signal.reason`.
+   */
+  acquire(url: string, signal?: AbortSignal): Promise<() => void>;
+}
@@ -0,0 +1,54 @@
+/**
+ * How backoff delays are randomized.
+ * - `equal` – half fixed, half random: `delay * random(0.5 … 1.0)` (default)
+ * - `full` – fully random: `delay * random(0 … 1.0)`
+ * - `none` – no randomization
+ */
+export type JitterStrategy = 'equal' | 'full' | 'none';
+
+/**
+ * Information about a failed attempt, passed to {@link RetryPolicy.shouldRetry}.
+ */
+export interface RetryContext {
+  /** Request URL. */
+  url: string;
+  /** Number of the attempt that just failed (1-based). */
+  attempt: number;
+  /** HTTP status when the server responded; undefined for network errors and timeouts. */
+  status?: number;
+  /** The error the attempt failed with (`HttpError` for non-OK responses). */
+  error: unknown;
+  /** Delay requested by the `Retry-After` response header, in milliseconds. */
+  retryAfterMs?: number;
+  /** Delay before the next attempt if it is retried, in milliseconds. */
+  delayMs: number;
+  /** Time since the first attempt started, in milliseconds. */
+  elapsedMs: number;
+  /** Whether the default policy would retry (retryable status, network error, or timeout). */
+  retryable: boolean;
+}
+
+/**
+ * Retry behaviour for `doRequest`. The number of retries is still set by `RequestOptions.retries`;
+ * the policy decides which failures are retried and how long to wait between attempts.
+ */
+export interface RetryPolicy {
+  /** Response statuses that are retried. Default `[429, 503]`. Network errors and timeouts are always retryable. */
+  retryableStatuses?: readonly number[];
+  /** Backoff base: the delay before the first retry, doubled on each further retry. Default 1000. */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single backoff delay. Default 30000. When a `Retry-After` header asks for a
+   * longer wait, the request is not retried (retrying earlier would ignore the server's request).
+   */
+  maxDelayMs?: number;
+  /** Backoff randomization. Default `'equal'`. */
+  jitter?: JitterStrategy;
+  /** Stop retrying once the time since the first attempt plus the next delay would exceed this. Default: no limit. */
+  maxElapsedMs?: number;
+  /**
+   * Custom retry predicate. Replaces the default classification (`ctx.retryable`); the `retries`,
+   * `maxDelayMs` (for `Retry-After`), and `maxElapsedMs` limits still apply.
+   */
+  shouldRetry?: (ctx: RetryContext) => boolean;
+}
@@ -1,3 +1,5 @@
+import type { ReviewEntry } from '../lib/schemas.js';
+
 /**
  * Represents a user review from the App Store
  */
@@ -21,4 +23,6 @@ export interface Review {
   text: string;
   /** Review submission date */
   updated: string;
+  /** Validated feed entry this review was built from (only with `includeRaw: true`) */
+  raw?: ReviewEntry;
 }
@@ -0,0 +1,29 @@
+/**
+ * Region an App Store storefront belongs to, as grouped on Apple's country picker.
+ */
+export type StorefrontRegion =
+  | 'africa-middle-east-india'
+  | 'asia-pacific'
+  | 'europe'
+  | 'latin-america-caribbean'
+  | 'us-canada';
+
+/**
+ * Metadata for one App Store storefront (country), returned by `storefronts()`.
+ */
+export interface Storefront {
+  /** Two-letter country code (lowercase), as used for the `country` option */
+  country: string;
+  /** English display name (e.g., "United Kingdom") */
+  name: string;
+  /** Apple Store Front ID, as in {@link markets} */
+  storeFrontId: number;
+  /** Currency prices are shown in (e.g., "GBP"; many smaller storefronts use "USD") */
+  currency: string;
+  /** Language tags the storefront supports (lowercase, e.g. `en-gb`), default language first */
+  languages: string[];
+  /** Language the storefront uses when no `lang` is given */
+  defaultLanguage: string;
+  /** Region on Apple's country picker */
+  region: StorefrontRegion;
+}
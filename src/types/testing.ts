@@ -0,0 +1,118 @@
+import type { RatingHistogram } from './app.js';
+import type { PrivacyDetails, VersionHistory } from './app-details.js';
+import type { Collection } from './constants.js';
+import type { EndpointName, FetchFunction, RequestOptions } from './options.js';
+import type { Review } from './review.js';
+
+/**
+ * An app in the mock App Store catalog. Only `id`, `appId`, and `title` are required;
+ * the rest default to empty values, as the iTunes API would omit them.
+ */
+export interface MockApp {
+  /** Track ID */
+  id: number;
+  /** Bundle ID */
+  appId: string;
+  title: string;
+  description?: string;
+  developer?: string;
+  /** Artist ID; `developer({ devId })` returns every app with this ID */
+  developerId?: number;
+  genre?: string;
+  genreId?: number;
+  price?: number;
+  /** Default `USD` */
+  currency?: string;
+  version?: string;
+  /** ISO date of the first release */
+  released?: string;
+  /** ISO date of the current version */
+  updated?: string;
+  /** Average rating (0–5) */
+  score?: number;
+  /** Rating count */
+  reviews?: number;
+  icon?: string;
+  /**
+   * iPhone screenshot URLs. Returned by lookup unless `screenshotsOnPageOnly` is set, and always
+   * rendered on the app page.
+   */
+  screenshots?: string[];
+  /** Omit screenshots from lookup results so `app()` falls back to scraping the app page. */
+  screenshotsOnPageOnly?: boolean;
+  /** Star histogram served by the ratings page. Without it the page body is empty (no ratings). */
+  histogram?: RatingHistogram;
+  /** Reviews served by the customer reviews feed (50 per page, in the given order). */
+  customerReviews?: Review[];
+  /** IDs rendered in the app page's "You Might Also Like" section (for `similar()`). */
+  similarIds?: number[];
+  /** Rendered in the app page's version history dialog. */
+  versionHistory?: VersionHistory[];
+  /** Rendered in the app page's privacy dialog (policy URL, type names, purposes, data categories). */
+  privacy?: PrivacyDetails;
+  /** Two-letter storefronts where the app is available (default: all). */
+  countries?: string[];
+}
+
+/**
+ * Failure injected into the mock server with {@link MockAppStore.inject}.
+ */
+export interface MockFailure {
+  /** Only requests to this endpoint fail (default: any endpoint). */
+  endpoint?: EndpointName;
+  /** HTTP status to respond with (e.g. 429, 503, 404). */
+  status: number;
+  /** Number of matching requests that fail before normal responses resume (default 1). */
+  times?: number;
+  /** Extra response headers, e.g. `{ 'Retry-After': '1' }`. */
+  headers?: Record<string, string>;
+  /** Response body (default: empty). */
+  body?: string;
+}
+
+/** A request received by the mock server. */
+export interface MockRequest {
+  /** Endpoint the request was routed to, or undefined when no route matched (404). */
+  endpoint?: EndpointName;
+  /** Path and query as received (host-independent). */
+  path: string;
+  /** Request headers (lower-cased names). */
+  headers: Record<string, string>;
+}
+
+/**
+ * Options for {@link createMockAppStore}.
+ */
+export interface MockAppStoreOptions {
+  /** Catalog served by every endpoint. */
+  apps?: MockApp[];
+  /** App IDs per chart for the RSS list feeds (default: the whole catalog, in order, for every chart). */
+  charts?: Partial<Record<Collection, number[]>>;
+  /** Port to listen on (default: a random free port). */
+  port?: number;
+}
+
+/**
+ * A running mock App Store server.
+ */
+export interface MockAppStore {
+  /** Server origin, e.g. `http://127.0.0.1:54321`. */
+  readonly url: string;
+  /** Every endpoint pointed at this server, ready to pass as `requestOptions.endpoints`. */
+  readonly endpoints: Readonly<Record<EndpointName, string>>;
+  /**
+   * Fetch that sends requests for `itunes.apple.com`, `search.itunes.apple.com`, and `apps.apple.com`
+   * to this server (other URLs pass through unchanged).
+   */
+  readonly fetch: FetchFunction;
+  /** `{ endpoints }`, ready to pass as `requestOptions` (or `createClient({ requestOptions })`). */
+  readonly requestOptions: RequestOptions;
+  /** Requests received so far, oldest first. */
+  readonly requests: readonly MockRequest[];
+  /** Makes the next matching request(s) fail with the given status. Failures queue in order. */
+  inject(failure: MockFailure): void;
+  /** Clears the request log and pending injected failures. */
+  reset(): void;
+  /** Stops the server. */
+  close(): Promise<void>;
+}